@@ -0,0 +1,105 @@
+"use client";
+
+import Link from "next/link";
+import type { RecipeFieldChange, RecipeRef } from "@/app/lib/diff";
+import { useChangeLog } from "@/app/lib/useChangeLog";
+
+function describeChange(change: RecipeFieldChange): string {
+  const show = (v: string | number | null) => (v === null ? "–" : String(v));
+  if (change.field === "ingredient") {
+    if (change.before === null) return `+ ${change.name} ×${change.after}`;
+    if (change.after === null) return `− ${change.name} ×${change.before}`;
+    return `${change.name} ×${change.before} → ×${change.after}`;
+  }
+  const label = change.field === "CraftedQuantity" ? "Yield" : change.field;
+  return `${label}: ${show(change.before)} → ${show(change.after)}`;
+}
+
+function ItemLink({ recipe }: { recipe: RecipeRef }) {
+  return (
+    <Link href={`/?item=${encodeURIComponent(recipe.item)}`} className="text-[var(--accent)] hover:underline">
+      {recipe.item}
+    </Link>
+  );
+}
+
+export default function ChangeLogView() {
+  const { log, loading, error } = useChangeLog();
+
+  if (loading) {
+    return <div className="mx-auto max-w-5xl px-4 py-12 text-center text-[var(--muted)]">Loading changes…</div>;
+  }
+
+  if (error) {
+    return <div className="mx-auto max-w-5xl px-4 py-12 text-center text-red-400">{error}</div>;
+  }
+
+  return (
+    <div className="mx-auto min-h-screen max-w-5xl px-4 py-8">
+      <header className="mb-8">
+        <Link href="/" className="text-sm text-[var(--muted)] hover:text-[var(--text)]">
+          ← Crafting Index
+        </Link>
+        <h1 className="mb-1 mt-2 text-2xl font-bold text-[var(--text)]">What changed</h1>
+        <p className="text-sm text-[var(--muted)]">Recipe differences between daily wiki data updates.</p>
+      </header>
+
+      {log.entries.length === 0 && <p className="py-12 text-center text-[var(--muted)]">No changes recorded yet.</p>}
+
+      <div className="space-y-6">
+        {log.entries.map((entry) => (
+          <section key={entry.to} className="rounded-xl border border-[var(--border)] bg-[var(--surface)] p-4 text-sm">
+            <h2 className="mb-3 flex flex-wrap items-baseline gap-2">
+              <span className="text-lg font-semibold text-[var(--text)]">
+                {new Date(entry.to).toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric" })}
+              </span>
+              <span className="text-[var(--muted)]">
+                {entry.added.length} added · {entry.removed.length} removed · {entry.changed.length} changed
+              </span>
+            </h2>
+            {entry.added.length > 0 && (
+              <div className="mb-3">
+                <p className="mb-1 text-xs font-medium uppercase tracking-wide text-[var(--muted)]">Added</p>
+                <ul className="flex flex-wrap gap-x-4 gap-y-1">
+                  {entry.added.map((r, i) => (
+                    <li key={i}>
+                      <ItemLink recipe={r} />
+                      {r.crafter ? <span className="text-[var(--muted)]"> · {r.crafter}</span> : null}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {entry.removed.length > 0 && (
+              <div className="mb-3">
+                <p className="mb-1 text-xs font-medium uppercase tracking-wide text-[var(--muted)]">Removed</p>
+                <ul className="flex flex-wrap gap-x-4 gap-y-1 text-[var(--muted)] line-through">
+                  {entry.removed.map((r, i) => (
+                    <li key={i}>{r.item}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {entry.changed.length > 0 && (
+              <div>
+                <p className="mb-1 text-xs font-medium uppercase tracking-wide text-[var(--muted)]">Changed</p>
+                <ul className="space-y-1.5">
+                  {entry.changed.map((r, i) => (
+                    <li key={i}>
+                      <ItemLink recipe={r} />
+                      <ul className="ml-4 text-[var(--muted)]">
+                        {r.changes.map((c, j) => (
+                          <li key={j}>{describeChange(c)}</li>
+                        ))}
+                      </ul>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+}
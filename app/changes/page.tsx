@@ -0,0 +1,11 @@
+import type { Metadata } from "next";
+import ChangeLogView from "./ChangeLogView";
+
+export const metadata: Metadata = {
+  title: "What changed · Enshrouded Crafting Index",
+  description: "Recipes added, removed and changed between wiki data updates.",
+};
+
+export default function ChangesPage() {
+  return <ChangeLogView />;
+}
@@ -0,0 +1,119 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import Fuse from "fuse.js";
+import { useFocusTrap } from "@/app/lib/useFocusTrap";
+
+export interface PaletteCommand {
+  id: string;
+  /** Shown before the label and searched with it, e.g. "Crafter". */
+  group: string;
+  label: string;
+  /** Secondary text on the right, e.g. "current". */
+  hint?: string;
+  run: () => void;
+}
+
+const MAX_RESULTS = 50;
+const NO_GROUPS: string[] = [];
+
+/**
+ * Ctrl/Cmd+K dialog: fuzzy search over `commands`, arrow keys to move, Enter to run, Escape to
+ * close. With an empty query it lists the commands whose group isn't in `hiddenUntilTyped`
+ * (the item list is far too long to browse).
+ */
+export default function CommandPalette({
+  commands,
+  hiddenUntilTyped = NO_GROUPS,
+  onClose,
+}: {
+  commands: PaletteCommand[];
+  hiddenUntilTyped?: string[];
+  onClose: () => void;
+}) {
+  const rootRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+  const [query, setQuery] = useState("");
+  const [active, setActive] = useState(0);
+  useFocusTrap(rootRef, onClose);
+
+  const fuse = useMemo(
+    () => new Fuse(commands, { keys: ["label", "group"], threshold: 0.35, ignoreLocation: true }),
+    [commands]
+  );
+  const results = useMemo(() => {
+    const q = query.trim();
+    if (q) return fuse.search(q, { limit: MAX_RESULTS }).map((r) => r.item);
+    return commands.filter((c) => !hiddenUntilTyped.includes(c.group)).slice(0, MAX_RESULTS);
+  }, [query, fuse, commands, hiddenUntilTyped]);
+
+  useEffect(() => setActive(0), [results]);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-option="${active}"]`)?.scrollIntoView({ block: "nearest" });
+  }, [active]);
+
+  const run = (command: PaletteCommand | undefined) => {
+    if (!command) return;
+    onClose();
+    command.run();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-start justify-center bg-black/50 px-4 pt-[15vh]" onClick={onClose}>
+      <div
+        ref={rootRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Command palette"
+        className="flex max-h-[60vh] w-full max-w-lg flex-col overflow-hidden rounded-xl border border-[var(--border)] bg-[var(--surface)] shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <input
+          data-autofocus
+          type="text"
+          role="combobox"
+          aria-expanded="true"
+          aria-controls="command-palette-list"
+          aria-activedescendant={results.length ? `command-palette-${active}` : undefined}
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+              e.preventDefault();
+              const step = e.key === "ArrowDown" ? 1 : -1;
+              if (results.length) setActive((i) => (i + step + results.length) % results.length);
+            } else if (e.key === "Enter") {
+              e.preventDefault();
+              run(results[active]);
+            }
+          }}
+          placeholder="Jump to an item, filter by crafter or workshop, sort…"
+          className="border-b border-[var(--border)] bg-transparent px-4 py-3 text-[var(--text)] placeholder:text-[var(--muted)] focus:outline-none"
+        />
+        <ul ref={listRef} id="command-palette-list" role="listbox" aria-label="Commands" className="overflow-y-auto py-1 text-sm">
+          {results.map((command, i) => (
+            <li
+              key={command.id}
+              id={`command-palette-${i}`}
+              data-option={i}
+              role="option"
+              aria-selected={i === active}
+              onMouseMove={() => setActive(i)}
+              onClick={() => run(command)}
+              className={
+                "flex cursor-pointer items-baseline gap-2 px-4 py-1.5 " +
+                (i === active ? "bg-[var(--accent-dim)]/30 text-[var(--text)]" : "text-[var(--muted)]")
+              }
+            >
+              <span className="w-20 shrink-0 text-xs text-[var(--muted)]">{command.group}</span>
+              <span className="truncate">{command.label}</span>
+              {command.hint && <span className="ml-auto shrink-0 text-xs text-[var(--muted)]">{command.hint}</span>}
+            </li>
+          ))}
+          {results.length === 0 && <li className="px-4 py-3 text-[var(--muted)]">No matches</li>}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+"use client";
+
+import { useMemo, useRef, type ReactNode } from "react";
+import type { CraftingRecipe } from "@/app/types/items";
+import { craftedQuantityOf } from "@/app/lib/bom";
+import { compareRecipes, valuesDiffer, type CompareRow } from "@/app/lib/compare";
+import { formatCost, type RecipeMetrics } from "@/app/lib/metrics";
+import { useFocusTrap } from "@/app/lib/useFocusTrap";
+
+const DIFF_ROW = "bg-[var(--accent-dim)]/10";
+
+function SectionHeading({ title, columns }: { title: string; columns: number }) {
+  return (
+    <tr>
+      <th
+        colSpan={columns + 1}
+        scope="colgroup"
+        className="border-b border-[var(--border)] px-3 pb-1.5 pt-4 text-left text-xs font-medium uppercase tracking-wide text-[var(--muted)]"
+      >
+        {title}
+      </th>
+    </tr>
+  );
+}
+
+/** A labelled row of per-recipe cells, tinted when the recipes disagree. */
+function Row({ label, differs, cells }: { label: ReactNode; differs: boolean; cells: ReactNode[] }) {
+  return (
+    <tr className={"border-b border-[var(--border)]/60 " + (differs ? DIFF_ROW : "")}>
+      <th scope="row" className="sticky left-0 bg-[var(--bg)] px-3 py-1.5 text-left font-normal text-[var(--text)]">
+        {differs && <span className="mr-1 text-[var(--accent)]" title="Differs between recipes">●</span>}
+        {label}
+      </th>
+      {cells.map((cell, i) => (
+        <td key={i} className="px-3 py-1.5 tabular-nums">
+          {cell}
+        </td>
+      ))}
+    </tr>
+  );
+}
+
+/** Quantities per recipe: "—" where unused, the smallest of a differing row in the accent colour. */
+function QuantityRow({ row }: { row: CompareRow }) {
+  const present = row.values.filter((v): v is number => v !== null);
+  const lowest = row.differs && present.length > 1 ? Math.min(...present) : null;
+  return (
+    <Row
+      label={row.name}
+      differs={row.differs}
+      cells={row.values.map((v) =>
+        v === null ? (
+          <span className="text-[var(--muted)]">—</span>
+        ) : (
+          <span className={v === lowest ? "font-medium text-[var(--accent)]" : "text-[var(--text)]"}>×{v}</span>
+        )
+      )}
+    />
+  );
+}
+
+function TextRow({ label, values }: { label: string; values: string[] }) {
+  return (
+    <Row
+      label={label}
+      differs={valuesDiffer(values)}
+      cells={values.map((v) => (v ? <span className="text-[var(--text)]">{v}</span> : <span className="text-[var(--muted)]">—</span>))}
+    />
+  );
+}
+
+/**
+ * Full-screen table of two to four recipes: stations, metrics, direct ingredients aligned by name
+ * and raw-material totals for one craft. Rows that differ are marked; the lowest quantity is highlighted.
+ */
+export default function CompareView({
+  recipes,
+  craftableByName,
+  metricsByRecipe,
+  onRemove,
+  onOpen,
+  onClose,
+}: {
+  recipes: CraftingRecipe[];
+  craftableByName: Map<string, CraftingRecipe>;
+  metricsByRecipe: Map<CraftingRecipe, RecipeMetrics>;
+  onRemove: (recipe: CraftingRecipe) => void;
+  onOpen: (recipe: CraftingRecipe) => void;
+  onClose: () => void;
+}) {
+  const rootRef = useRef<HTMLDivElement>(null);
+  useFocusTrap(rootRef, onClose);
+  const comparison = useMemo(() => compareRecipes(recipes, craftableByName), [recipes, craftableByName]);
+  const metrics = recipes.map((r) => metricsByRecipe.get(r));
+  const metricRow = (label: string, value: (m: RecipeMetrics) => number, format: (n: number) => string = String) => {
+    const values = metrics.map((m) => (m ? value(m) : null));
+    return (
+      <Row
+        label={label}
+        differs={valuesDiffer(values)}
+        cells={values.map((v) => (v === null ? "—" : <span className="text-[var(--text)]">{format(v)}</span>))}
+      />
+    );
+  };
+
+  return (
+    <div
+      ref={rootRef}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Compare recipes"
+      tabIndex={-1}
+      className="fixed inset-0 z-[60] flex flex-col bg-[var(--bg)] focus:outline-none"
+    >
+      <div className="flex items-center gap-3 border-b border-[var(--border)] px-4 py-2 text-sm">
+        <span className="font-medium text-[var(--text)]">Compare recipes</span>
+        <span className="text-[var(--muted)]">● marks rows that differ</span>
+        <button
+          type="button"
+          onClick={onClose}
+          className="ml-auto rounded px-2 py-1 text-[var(--muted)] hover:bg-[var(--border)] hover:text-[var(--text)]"
+          aria-label="Close comparison"
+        >
+          Close
+        </button>
+      </div>
+      <div className="flex-1 overflow-auto p-4">
+        <table className="min-w-full border-collapse text-sm text-[var(--muted)]">
+          <thead>
+            <tr className="border-b border-[var(--border)]">
+              <th scope="col" className="sticky left-0 bg-[var(--bg)] px-3 py-2 text-left font-normal">
+                <span className="sr-only">Recipe</span>
+              </th>
+              {recipes.map((recipe, i) => (
+                <th key={i} scope="col" className="min-w-40 px-3 py-2 text-left align-top font-normal">
+                  <div className="flex items-start gap-2">
+                    <button
+                      type="button"
+                      onClick={() => onOpen(recipe)}
+                      className="text-left font-semibold text-[var(--accent)] hover:underline"
+                    >
+                      {recipe.CraftedItem}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onRemove(recipe)}
+                      className="ml-auto rounded px-1 text-[var(--muted)] hover:bg-[var(--border)] hover:text-[var(--text)]"
+                      aria-label={`Remove ${recipe.CraftedItem} from comparison`}
+                    >
+                      ×
+                    </button>
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            <SectionHeading title="Recipe" columns={recipes.length} />
+            <Row
+              label="Makes"
+              differs={valuesDiffer(recipes.map(craftedQuantityOf))}
+              cells={recipes.map((r) => <span className="text-[var(--text)]">×{craftedQuantityOf(r)}</span>)}
+            />
+            <TextRow label="Crafter" values={recipes.map((r) => r.Crafter)} />
+            <TextRow label="Workshop" values={recipes.map((r) => r.Workshop ?? "")} />
+            <TextRow label="Workshop 2" values={recipes.map((r) => r.Workshop2 ?? "")} />
+            {metricRow("Raw per unit", (m) => m.cost, formatCost)}
+            {metricRow("Distinct materials", (m) => m.materials)}
+            {metricRow("Chain depth", (m) => m.depth)}
+            {metricRow("Workshops in chain", (m) => m.workshops)}
+
+            <SectionHeading title="Ingredients" columns={recipes.length} />
+            {comparison.ingredients.map((row) => (
+              <QuantityRow key={row.name} row={row} />
+            ))}
+
+            <SectionHeading title="Raw materials (one craft)" columns={recipes.length} />
+            {comparison.raw.map((row) => (
+              <QuantityRow key={row.name} row={row} />
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+"use client";
+
+import { useMemo, useRef, useState } from "react";
+import type { CraftingRecipe } from "@/app/types/items";
+import type { UsedIn } from "@/app/lib/recipes";
+import { buildDependencyGraph, type GraphNode } from "@/app/lib/graph";
+import { useFocusTrap } from "@/app/lib/useFocusTrap";
+
+type ColorBy = "Crafter" | "Workshop";
+
+const COL_WIDTH = 220;
+const ROW_HEIGHT = 44;
+const NODE_WIDTH = 176;
+const NODE_HEIGHT = 30;
+const PADDING = 24;
+
+/** Stable hue per name so a crafter or workshop keeps its colour across re-centering. */
+function colorFor(key: string): string {
+  let hash = 0;
+  for (let i = 0; i < key.length; i++) hash = (hash * 31 + key.charCodeAt(i)) | 0;
+  return `hsl(${Math.abs(hash) % 360} 55% 45%)`;
+}
+
+function groupOf(node: GraphNode, colorBy: ColorBy): string {
+  if (!node.recipe) return "Raw material";
+  return (colorBy === "Crafter" ? node.recipe.Crafter : node.recipe.Workshop) || "None";
+}
+
+const truncate = (text: string, max = 24) => (text.length > max ? text.slice(0, max - 1) + "…" : text);
+
+/**
+ * Full-screen production chain around one item: ingredients to the left, recipes that consume it to
+ * the right. Clicking a node re-centers on it; the center can be opened in SidePanel.
+ */
+export default function DependencyGraph({
+  center,
+  craftableByName,
+  usedInByName,
+  onRecenter,
+  onOpen,
+  onClose,
+}: {
+  center: string;
+  craftableByName: Map<string, CraftingRecipe>;
+  usedInByName: Map<string, UsedIn[]>;
+  onRecenter: (name: string) => void;
+  onOpen: (name: string) => void;
+  onClose: () => void;
+}) {
+  const [depth, setDepth] = useState(2);
+  const [colorBy, setColorBy] = useState<ColorBy>("Workshop");
+  const rootRef = useRef<HTMLDivElement>(null);
+  useFocusTrap(rootRef, onClose);
+
+  const graph = useMemo(
+    () => buildDependencyGraph(center, depth, craftableByName, usedInByName),
+    [center, depth, craftableByName, usedInByName]
+  );
+
+  const layout = useMemo(() => {
+    const layers = new Map<number, GraphNode[]>();
+    graph.nodes.forEach((n) => layers.set(n.layer, [...(layers.get(n.layer) ?? []), n]));
+    const minLayer = Math.min(...layers.keys());
+    const maxLayer = Math.max(...layers.keys());
+    const tallest = Math.max(...Array.from(layers.values(), (l) => l.length));
+    const height = PADDING * 2 + tallest * ROW_HEIGHT;
+    const positions = new Map<string, { x: number; y: number }>();
+    layers.forEach((list, layer) => {
+      const sorted = [...list].sort((a, b) => a.name.localeCompare(b.name));
+      const top = (height - sorted.length * ROW_HEIGHT) / 2;
+      sorted.forEach((n, i) => {
+        positions.set(n.name, { x: PADDING + (layer - minLayer) * COL_WIDTH, y: top + i * ROW_HEIGHT });
+      });
+    });
+    const width = PADDING * 2 + (maxLayer - minLayer) * COL_WIDTH + NODE_WIDTH;
+    return { positions, width, height, minLayer };
+  }, [graph]);
+
+  const legend = useMemo(() => {
+    const groups = new Set(graph.nodes.map((n) => groupOf(n, colorBy)));
+    return Array.from(groups).sort();
+  }, [graph, colorBy]);
+
+  return (
+    <div
+      ref={rootRef}
+      role="dialog"
+      aria-modal="true"
+      aria-label={`Production chain: ${center}`}
+      tabIndex={-1}
+      className="fixed inset-0 z-[60] flex flex-col bg-[var(--bg)] focus:outline-none"
+    >
+      <div className="flex flex-wrap items-center gap-3 border-b border-[var(--border)] px-4 py-2 text-sm">
+        <span className="font-medium text-[var(--text)]">Production chain: {center}</span>
+        <label className="flex items-center gap-2 text-[var(--muted)]">
+          <span>Depth</span>
+          <input
+            type="range"
+            min={1}
+            max={5}
+            value={depth}
+            onChange={(e) => setDepth(Number(e.target.value))}
+            aria-label="Graph depth"
+          />
+          <span className="w-3 text-[var(--text)]">{depth}</span>
+        </label>
+        <label className="flex items-center gap-2 text-[var(--muted)]">
+          <span>Colour by</span>
+          <select
+            value={colorBy}
+            onChange={(e) => setColorBy(e.target.value as ColorBy)}
+            className="rounded border border-[var(--border)] bg-[var(--surface)] px-2 py-1 text-sm text-[var(--text)] focus:border-[var(--accent)] focus:outline-none"
+          >
+            <option value="Workshop">Workshop</option>
+            <option value="Crafter">Crafter</option>
+          </select>
+        </label>
+        <div className="ml-auto flex gap-2">
+          <button
+            type="button"
+            onClick={() => onOpen(center)}
+            className="rounded px-2 py-1 text-[var(--accent)] hover:bg-[var(--border)]"
+          >
+            Open details
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded px-2 py-1 text-[var(--muted)] hover:bg-[var(--border)] hover:text-[var(--text)]"
+            aria-label="Close graph"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-x-4 gap-y-1 border-b border-[var(--border)] px-4 py-2 text-xs text-[var(--muted)]">
+        {legend.map((g) => (
+          <span key={g} className="flex items-center gap-1.5">
+            <span className="inline-block h-2.5 w-2.5 rounded-sm" style={{ background: g === "Raw material" ? "var(--border)" : colorFor(g) }} />
+            {g}
+          </span>
+        ))}
+      </div>
+      <div className="flex-1 overflow-auto">
+        <svg width={layout.width} height={layout.height} className="block" role="img" aria-label={`Dependency graph for ${center}`}>
+          {graph.edges.map((e, i) => {
+            const from = layout.positions.get(e.from);
+            const to = layout.positions.get(e.to);
+            if (!from || !to) return null;
+            const x1 = from.x + NODE_WIDTH;
+            const y1 = from.y + NODE_HEIGHT / 2;
+            const x2 = to.x;
+            const y2 = to.y + NODE_HEIGHT / 2;
+            const bend = Math.max(40, Math.abs(x2 - x1) / 2);
+            return (
+              <g key={i}>
+                <path
+                  d={`M${x1},${y1} C${x1 + bend},${y1} ${x2 - bend},${y2} ${x2},${y2}`}
+                  fill="none"
+                  stroke="var(--border)"
+                  strokeWidth={1.5}
+                />
+                <text x={x2 - 6} y={y2 - 4} textAnchor="end" fontSize={10} fill="var(--muted)">
+                  ×{e.qty}
+                </text>
+              </g>
+            );
+          })}
+          {graph.nodes.map((n) => {
+            const pos = layout.positions.get(n.name)!;
+            const group = groupOf(n, colorBy);
+            const isCenter = n.name === center;
+            return (
+              <g
+                key={n.name}
+                transform={`translate(${pos.x},${pos.y})`}
+                onClick={() => (isCenter ? onOpen(n.name) : onRecenter(n.name))}
+                className="cursor-pointer"
+                role="button"
+                tabIndex={0}
+                aria-label={isCenter ? `Open ${n.name}` : `Center on ${n.name}`}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" || e.key === " ") {
+                    e.preventDefault();
+                    if (isCenter) onOpen(n.name);
+                    else onRecenter(n.name);
+                  }
+                }}
+              >
+                <title>{`${n.name}${n.recipe ? ` — ${[n.recipe.Crafter, n.recipe.Workshop].filter(Boolean).join(", ")}` : ""}`}</title>
+                <rect
+                  width={NODE_WIDTH}
+                  height={NODE_HEIGHT}
+                  rx={6}
+                  fill={group === "Raw material" ? "var(--surface)" : colorFor(group)}
+                  stroke={isCenter ? "var(--accent)" : "var(--border)"}
+                  strokeWidth={isCenter ? 2.5 : 1}
+                />
+                <text x={10} y={NODE_HEIGHT / 2 + 4} fontSize={12} fill="var(--text)">
+                  {truncate(n.name)}
+                </text>
+              </g>
+            );
+          })}
+          {Object.entries(graph.hidden).map(([layer, count]) => (
+            <text
+              key={layer}
+              x={PADDING + (Number(layer) - layout.minLayer) * COL_WIDTH}
+              y={layout.height - 6}
+              fontSize={11}
+              fill="var(--muted)"
+            >
+              +{count} more
+            </text>
+          ))}
+        </svg>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+/** How often an open tab asks for items.json again, so a long-lived tab notices a data update. */
+const DATA_CHECK_INTERVAL_MS = 30 * 60 * 1000;
+
+/**
+ * Registers public/sw.js within the base path and offers a reload when the worker reports that
+ * items.json changed. Production only, so `next dev` never serves stale cached chunks.
+ */
+export default function ServiceWorkerRegistration() {
+  const [updateReady, setUpdateReady] = useState(false);
+
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return;
+    const base = process.env.NEXT_PUBLIC_BASE_PATH ?? "";
+    navigator.serviceWorker.register(`${base}/sw.js`, { scope: `${base}/` }).catch(() => {});
+
+    const onMessage = (e: MessageEvent) => {
+      if (e.data?.type === "items-updated") setUpdateReady(true);
+    };
+    // The worker revalidates items.json whenever it is requested; that request is all a check needs.
+    const checkForData = () => {
+      if (document.visibilityState === "visible" && navigator.onLine) fetch(`${base}/items.json`).catch(() => {});
+    };
+    navigator.serviceWorker.addEventListener("message", onMessage);
+    document.addEventListener("visibilitychange", checkForData);
+    window.addEventListener("online", checkForData);
+    const interval = setInterval(checkForData, DATA_CHECK_INTERVAL_MS);
+    return () => {
+      navigator.serviceWorker.removeEventListener("message", onMessage);
+      document.removeEventListener("visibilitychange", checkForData);
+      window.removeEventListener("online", checkForData);
+      clearInterval(interval);
+    };
+  }, []);
+
+  if (!updateReady) return null;
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-4 left-1/2 z-[70] flex -translate-x-1/2 items-center gap-3 rounded-lg border border-[var(--border)] bg-[var(--surface)] px-4 py-2 text-sm text-[var(--text)] shadow-xl"
+    >
+      <span>New recipe data is available.</span>
+      <button
+        type="button"
+        onClick={() => window.location.reload()}
+        className="rounded px-2 py-1 font-medium text-[var(--accent)] hover:bg-[var(--border)]"
+      >
+        Refresh
+      </button>
+      <button
+        type="button"
+        onClick={() => setUpdateReady(false)}
+        className="rounded px-2 py-1 text-[var(--muted)] hover:bg-[var(--border)] hover:text-[var(--text)]"
+        aria-label="Dismiss"
+      >
+        ✕
+      </button>
+    </div>
+  );
+}
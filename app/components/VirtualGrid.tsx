@@ -0,0 +1,236 @@
+"use client";
+
+import {
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useRef,
+  useState,
+  type KeyboardEvent,
+  type ReactNode,
+} from "react";
+
+/** Matches the grid's Tailwind breakpoints: 1 column, sm:grid-cols-2, lg:grid-cols-3. */
+function useColumns(): number {
+  const [columns, setColumns] = useState(1);
+  useEffect(() => {
+    const sm = window.matchMedia("(min-width: 640px)");
+    const lg = window.matchMedia("(min-width: 1024px)");
+    const update = () => setColumns(lg.matches ? 3 : sm.matches ? 2 : 1);
+    update();
+    sm.addEventListener("change", update);
+    lg.addEventListener("change", update);
+    return () => {
+      sm.removeEventListener("change", update);
+      lg.removeEventListener("change", update);
+    };
+  }, []);
+  return columns;
+}
+
+/**
+ * Responsive card grid that only mounts the rows near the viewport. Rows are measured as they
+ * render (cards in a row share its height), so cards keep their natural size; unmeasured rows use
+ * estimateRowHeight. Scrolling is the window's, so the page layout is unchanged.
+ *
+ * The grid is a single Tab stop: only the active item is tabbable (renderItem's `active`), and the
+ * arrow keys, Home and End move between items, scrolling unmounted rows into view first.
+ */
+export default function VirtualGrid<T>({
+  items,
+  getKey,
+  renderItem,
+  estimateRowHeight = 240,
+  overscan = 3,
+  className,
+  "aria-label": ariaLabel,
+}: {
+  items: T[];
+  getKey: (item: T, index: number) => string;
+  renderItem: (item: T, index: number, active: boolean) => ReactNode;
+  estimateRowHeight?: number;
+  overscan?: number;
+  className?: string;
+  "aria-label"?: string;
+}) {
+  const columns = useColumns();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const heights = useRef<Map<number, number>>(new Map());
+  const [range, setRange] = useState({ start: 0, end: 10 });
+  const [measureVersion, setMeasureVersion] = useState(0);
+  const [activeIndex, setActiveIndex] = useState(0);
+  /** The item last moved to or focused, followed across new `items` arrays. */
+  const activeItem = useRef<T | undefined>(undefined);
+  /** Item to focus once its row is mounted, after keyboard navigation to an unmounted row. */
+  const pendingFocus = useRef<number | null>(null);
+  const rowCount = Math.ceil(items.length / columns);
+
+  // Row heights depend on the column count; start over when it changes.
+  useLayoutEffect(() => {
+    heights.current.clear();
+  }, [columns]);
+
+  const rowHeight = useCallback((row: number) => heights.current.get(row) ?? estimateRowHeight, [estimateRowHeight]);
+
+  const updateRange = useCallback(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const top = el.getBoundingClientRect().top;
+    const viewStart = -top;
+    const viewEnd = viewStart + window.innerHeight;
+    let offset = 0;
+    let start = 0;
+    while (start < rowCount && offset + rowHeight(start) < viewStart) offset += rowHeight(start++);
+    let end = start;
+    while (end < rowCount && offset < viewEnd) offset += rowHeight(end++);
+    const next = { start: Math.max(0, start - overscan), end: Math.min(rowCount, end + overscan) };
+    setRange((prev) => (prev.start === next.start && prev.end === next.end ? prev : next));
+  }, [rowCount, rowHeight, overscan]);
+
+  useEffect(() => {
+    updateRange();
+  }, [updateRange, measureVersion]);
+
+  useEffect(() => {
+    window.addEventListener("scroll", updateRange, { passive: true });
+    window.addEventListener("resize", updateRange);
+    return () => {
+      window.removeEventListener("scroll", updateRange);
+      window.removeEventListener("resize", updateRange);
+    };
+  }, [updateRange]);
+
+  const observer = useRef<ResizeObserver | null>(null);
+  useEffect(() => {
+    observer.current = new ResizeObserver((entries) => {
+      let changed = false;
+      entries.forEach((entry) => {
+        const row = Number((entry.target as HTMLElement).dataset.row);
+        const height = (entry.target as HTMLElement).offsetHeight;
+        if (heights.current.get(row) !== height) {
+          heights.current.set(row, height);
+          changed = true;
+        }
+      });
+      if (changed) setMeasureVersion((v) => v + 1);
+    });
+    return () => observer.current?.disconnect();
+  }, []);
+
+  // Streamed chunks, favorites and locks all produce new arrays: keep the active item wherever it
+  // now is, and start at the first item only when it's gone.
+  useEffect(() => {
+    const index = activeItem.current === undefined ? -1 : items.indexOf(activeItem.current);
+    setActiveIndex(Math.max(0, index));
+    if (pendingFocus.current !== null) pendingFocus.current = index >= 0 ? index : null;
+  }, [items]);
+
+  const activate = (index: number) => {
+    activeItem.current = items[index];
+    setActiveIndex(index);
+  };
+
+  const itemElement = (index: number) =>
+    containerRef.current?.querySelector<HTMLElement>(`[data-index="${index}"] > *`) ?? null;
+
+  useLayoutEffect(() => {
+    if (pendingFocus.current === null) return;
+    const el = itemElement(pendingFocus.current);
+    if (el) {
+      pendingFocus.current = null;
+      el.focus();
+    }
+  });
+
+  const onKeyDown = (e: KeyboardEvent<HTMLElement>) => {
+    const cell = (e.target as HTMLElement).parentElement;
+    // Only keys on an item itself, not on buttons inside it.
+    if (!cell?.dataset.index || !items.length) return;
+    const index = Number(cell.dataset.index);
+    const last = items.length - 1;
+    const next = {
+      ArrowLeft: index - 1,
+      ArrowRight: index + 1,
+      ArrowUp: index - columns,
+      ArrowDown: index + columns,
+      Home: 0,
+      End: last,
+    }[e.key];
+    if (next === undefined || next < 0 || next > last) return;
+    e.preventDefault();
+    activate(next);
+    const el = itemElement(next);
+    if (el) {
+      el.focus();
+      return;
+    }
+    // Scroll the row into view; the layout effect above focuses it once it mounts.
+    pendingFocus.current = next;
+    const row = Math.floor(next / columns);
+    let offset = 0;
+    for (let r = 0; r < row; r++) offset += rowHeight(r);
+    const top = containerRef.current!.getBoundingClientRect().top + window.scrollY;
+    window.scrollTo({ top: top + offset - window.innerHeight / 3 });
+  };
+
+  // Observe exactly the mounted rows, so unmounted ones are released.
+  useLayoutEffect(() => {
+    const ro = observer.current;
+    const el = containerRef.current;
+    if (!ro || !el) return;
+    ro.disconnect();
+    el.querySelectorAll<HTMLElement>("[data-row]").forEach((row) => ro.observe(row));
+  });
+
+  let before = 0;
+  for (let r = 0; r < range.start && r < rowCount; r++) before += rowHeight(r);
+  let after = 0;
+  for (let r = Math.min(range.end, rowCount); r < rowCount; r++) after += rowHeight(r);
+
+  // The tabbable item: the active one, or the first mounted one when it has scrolled away.
+  const firstMounted = range.start * columns;
+  const lastMounted = Math.min(range.end * columns, items.length) - 1;
+  const tabbable = activeIndex >= firstMounted && activeIndex <= lastMounted ? activeIndex : firstMounted;
+
+  const rows: ReactNode[] = [];
+  for (let r = range.start; r < Math.min(range.end, rowCount); r++) {
+    const rowItems = items.slice(r * columns, r * columns + columns);
+    rows.push(
+      <div
+        key={`${columns}-${r}`}
+        data-row={r}
+        role="presentation"
+        // pb-4 stands in for the grid's gap-4 between rows so measured heights include it.
+        className="grid gap-4 pb-4 sm:grid-cols-2 lg:grid-cols-3"
+      >
+        {rowItems.map((item, i) => {
+          const index = r * columns + i;
+          return (
+            <div key={getKey(item, index)} data-index={index} className="grid">
+              {renderItem(item, index, index === tabbable)}
+            </div>
+          );
+        })}
+      </div>
+    );
+  }
+
+  return (
+    <section
+      ref={containerRef}
+      className={className}
+      aria-label={ariaLabel}
+      onKeyDown={onKeyDown}
+      onFocus={(e) => {
+        // Keep a focused card in view, which also mounts the rows around it, and remember it.
+        (e.target as HTMLElement).scrollIntoView?.({ block: "nearest" });
+        const index = (e.target as HTMLElement).closest<HTMLElement>("[data-index]")?.dataset.index;
+        if (index !== undefined) activate(Number(index));
+      }}
+    >
+      <div style={{ height: before }} />
+      {rows}
+      <div style={{ height: after }} />
+    </section>
+  );
+}
@@ -0,0 +1,123 @@
+"use client";
+
+import Link from "next/link";
+import type { ReactNode } from "react";
+import { MAX_PLAUSIBLE_QUANTITY } from "@/app/lib/integrity";
+import { useIntegrityReport } from "@/app/lib/useIntegrityReport";
+
+function ItemLink({ name }: { name: string }) {
+  return (
+    <Link href={`/?item=${encodeURIComponent(name)}`} className="text-[var(--accent)] hover:underline">
+      {name}
+    </Link>
+  );
+}
+
+function Section({ title, count, children }: { title: string; count: number; children: ReactNode }) {
+  return (
+    <section className="rounded-xl border border-[var(--border)] bg-[var(--surface)] p-4 text-sm">
+      <h2 className="mb-3 flex items-baseline gap-2">
+        <span className="text-lg font-semibold text-[var(--text)]">{title}</span>
+        <span className={count ? "text-red-400" : "text-[var(--muted)]"}>{count}</span>
+      </h2>
+      {count === 0 ? <p className="text-[var(--muted)]">None found.</p> : children}
+    </section>
+  );
+}
+
+export default function DiagnosticsView() {
+  const { report, loading, error } = useIntegrityReport();
+
+  if (loading) {
+    return <div className="mx-auto max-w-5xl px-4 py-12 text-center text-[var(--muted)]">Loading report…</div>;
+  }
+
+  if (error) {
+    return <div className="mx-auto max-w-5xl px-4 py-12 text-center text-red-400">{error}</div>;
+  }
+
+  return (
+    <div className="mx-auto min-h-screen max-w-5xl px-4 py-8">
+      <header className="mb-8">
+        <Link href="/" className="text-sm text-[var(--muted)] hover:text-[var(--text)]">
+          ← Crafting Index
+        </Link>
+        <h1 className="mb-1 mt-2 text-2xl font-bold text-[var(--text)]">Data diagnostics</h1>
+        {report && (
+          <p className="text-sm text-[var(--muted)]">
+            {report.recipeCount} recipes from {report.source}, checked{" "}
+            {new Date(report.generatedAt).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" })}.
+          </p>
+        )}
+      </header>
+
+      {!report && (
+        <p className="py-12 text-center text-[var(--muted)]">No report yet. Run npm run check-integrity.</p>
+      )}
+
+      {report && (
+        <div className="space-y-6">
+          <Section title="Dangling ingredients" count={report.danglingIngredients.length}>
+            <p className="mb-2 text-[var(--muted)]">
+              Used as ingredients, but no recipe crafts them and they aren&apos;t listed in scripts/raw-materials.txt.
+            </p>
+            <ul className="space-y-1.5">
+              {report.danglingIngredients.map((d) => (
+                <li key={d.name}>
+                  <span className="font-medium text-[var(--text)]">{d.name}</span>
+                  {d.suggestion && (
+                    <span className="text-[var(--muted)]">
+                      {" "}
+                      · did you mean <ItemLink name={d.suggestion} />?
+                    </span>
+                  )}
+                  <div className="ml-4 text-[var(--muted)]">
+                    Used by{" "}
+                    {d.usedBy.map((name, i) => (
+                      <span key={name}>
+                        {i > 0 && ", "}
+                        <ItemLink name={name} />
+                      </span>
+                    ))}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </Section>
+
+          <Section title="Dependency cycles" count={report.cycles.length}>
+            <p className="mb-2 text-[var(--muted)]">Items that require each other, directly or through other recipes.</p>
+            <ul className="space-y-1">
+              {report.cycles.map((cycle) => (
+                <li key={cycle.join("|")}>
+                  {cycle.map((name, i) => (
+                    <span key={name}>
+                      {i > 0 && <span className="text-[var(--muted)]"> ↔ </span>}
+                      <ItemLink name={name} />
+                    </span>
+                  ))}
+                </li>
+              ))}
+            </ul>
+          </Section>
+
+          <Section title="Quantity issues" count={report.quantityIssues.length}>
+            <p className="mb-2 text-[var(--muted)]">
+              Ingredients listed twice in one recipe (often two variants merged on the wiki), fractional amounts and
+              amounts over {MAX_PLAUSIBLE_QUANTITY}.
+            </p>
+            <ul className="space-y-1">
+              {report.quantityIssues.map((q, i) => (
+                <li key={i}>
+                  {q.item ? <ItemLink name={q.item} /> : <span className="text-[var(--muted)]">(unnamed)</span>}
+                  {q.crafter && <span className="text-[var(--muted)]"> · {q.crafter}</span>}
+                  <span className="text-[var(--muted)]">: {q.message}</span>
+                </li>
+              ))}
+            </ul>
+          </Section>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,12 @@
+import type { Metadata } from "next";
+import DiagnosticsView from "./DiagnosticsView";
+
+// Not linked from the site; for checking a data update by hand.
+export const metadata: Metadata = {
+  title: "Diagnostics · Enshrouded Crafting Index",
+  robots: { index: false, follow: false },
+};
+
+export default function DiagnosticsPage() {
+  return <DiagnosticsView />;
+}
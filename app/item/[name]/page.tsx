@@ -0,0 +1,139 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import type { CraftingRecipe } from "@/app/types/items";
+import { ingredientsOf } from "@/app/lib/bom";
+import { readItemsFile } from "@/app/lib/itemsFile";
+import { buildUsedInIndex, itemSlug, type UsedIn } from "@/app/lib/recipes";
+
+// Every page is prerendered for output: "export"; there is no server to render unknown slugs.
+export const dynamicParams = false;
+
+type Params = Promise<{ name: string }>;
+
+interface ItemIndex {
+  bySlug: Map<string, CraftingRecipe[]>;
+  usedInByName: Map<string, UsedIn[]>;
+}
+
+let index: ItemIndex | null = null;
+
+/** Built once per build from public/items.json and shared by every page. */
+function getIndex(): ItemIndex {
+  if (index) return index;
+  const items = readItemsFile();
+  const bySlug = new Map<string, CraftingRecipe[]>();
+  items.forEach((r) => {
+    const slug = itemSlug(r.CraftedItem);
+    bySlug.set(slug, [...(bySlug.get(slug) ?? []), r]);
+  });
+  index = { bySlug, usedInByName: buildUsedInIndex(items) };
+  return index;
+}
+
+export function generateStaticParams(): { name: string }[] {
+  return Array.from(getIndex().bySlug.keys(), (name) => ({ name }));
+}
+
+function describe(recipe: CraftingRecipe): string {
+  const where = [recipe.Crafter, recipe.Workshop].filter(Boolean).join(" at ");
+  const ingredients = ingredientsOf(recipe)
+    .map((ing) => `${ing.qty} ${ing.name}`)
+    .join(", ");
+  return `${recipe.CraftedItem} (×${recipe.CraftedQuantity})${where ? ` is crafted by ${where}` : " is crafted"} from ${ingredients || "nothing"}.`;
+}
+
+export async function generateMetadata({ params }: { params: Params }): Promise<Metadata> {
+  const { name } = await params;
+  const recipes = getIndex().bySlug.get(name);
+  if (!recipes) return {};
+  const title = `${recipes[0].CraftedItem} recipe · Enshrouded Crafting Index`;
+  const description = recipes.map(describe).join(" ");
+  return { title, description, openGraph: { title, description } };
+}
+
+function IngredientLink({ name }: { name: string }) {
+  const slug = itemSlug(name);
+  if (!getIndex().bySlug.has(slug)) return <span className="text-[var(--text)]">{name}</span>;
+  return (
+    <Link href={`/item/${slug}`} className="text-[var(--accent)] hover:underline">
+      {name}
+    </Link>
+  );
+}
+
+export default async function ItemPage({ params }: { params: Params }) {
+  const { name } = await params;
+  const recipes = getIndex().bySlug.get(name);
+  if (!recipes) notFound();
+  const itemName = recipes[0].CraftedItem;
+  const usedIn = getIndex().usedInByName.get(itemName) ?? [];
+
+  return (
+    <div className="mx-auto min-h-screen max-w-3xl px-4 py-8">
+      <header className="mb-6">
+        <Link href="/" className="text-sm text-[var(--muted)] hover:text-[var(--text)]">
+          ← Crafting Index
+        </Link>
+        <h1 className="mb-1 mt-2 text-2xl font-bold text-[var(--text)]">{itemName}</h1>
+        <Link href={`/?item=${encodeURIComponent(itemName)}`} className="text-sm text-[var(--accent)] hover:underline">
+          Open in the index
+        </Link>
+      </header>
+
+      <div className="space-y-4">
+        {recipes.map((recipe, i) => (
+          <article key={i} className="rounded-xl border border-[var(--border)] bg-[var(--surface)] p-4 shadow-sm">
+            <div className="mb-3 flex flex-wrap gap-x-4 gap-y-1 text-sm">
+              <span>
+                <span className="text-[var(--muted)]">Makes: </span>
+                <span className="text-[var(--text)]">×{recipe.CraftedQuantity}</span>
+              </span>
+              {recipe.Crafter ? (
+                <span>
+                  <span className="text-[var(--muted)]">Crafter: </span>
+                  <span className="text-[var(--text)]">{recipe.Crafter}</span>
+                </span>
+              ) : null}
+              {recipe.Workshop ? (
+                <span>
+                  <span className="text-[var(--muted)]">Workshop: </span>
+                  <span className="text-[var(--text)]">{recipe.Workshop}</span>
+                </span>
+              ) : null}
+              {recipe.Workshop2 ? (
+                <span>
+                  <span className="text-[var(--muted)]">Also needs: </span>
+                  <span className="text-[var(--text)]">{recipe.Workshop2}</span>
+                </span>
+              ) : null}
+            </div>
+            <h2 className="mb-1.5 text-xs font-medium uppercase tracking-wide text-[var(--muted)]">Ingredients</h2>
+            <ul className="space-y-1 text-sm">
+              {ingredientsOf(recipe).map((ing, j) => (
+                <li key={j}>
+                  <IngredientLink name={ing.name} /> <span className="text-[var(--muted)]">×{ing.qty}</span>
+                </li>
+              ))}
+            </ul>
+          </article>
+        ))}
+
+        {usedIn.length > 0 && (
+          <section className="rounded-xl border border-[var(--border)] bg-[var(--surface)] p-4 text-sm">
+            <h2 className="mb-1.5 text-xs font-medium uppercase tracking-wide text-[var(--muted)]">
+              Used in ({usedIn.length})
+            </h2>
+            <ul className="space-y-1">
+              {usedIn.map((u, i) => (
+                <li key={i}>
+                  <IngredientLink name={u.recipe.CraftedItem} /> <span className="text-[var(--muted)]">×{u.qty}</span>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import type { CraftingRecipe } from "@/app/types/items";
+import { stronglyConnected } from "@/app/lib/scc";
+
+/** One node of an expanded bill of materials. Raw materials have no recipe and no children. */
+export interface BomNode {
+  name: string;
+  /** Units this node has to supply to its parent. */
+  needed: number;
+  recipe: CraftingRecipe | null;
+  /** Whole crafts required; 0 for raw materials. */
+  crafts: number;
+  /** Units actually produced (crafts × CraftedQuantity); surplus is produced - needed. */
+  produced: number;
+  children: BomNode[];
+  /** True when expanding this recipe would loop back into one of its own ancestors. */
+  cycle?: boolean;
+}
+
+export interface RawTotal {
+  name: string;
+  qty: number;
+}
+
+/** CraftedQuantity arrives as a string ("20"); anything unparseable counts as one per craft. */
+export function craftedQuantityOf(recipe: CraftingRecipe): number {
+  const n = parseInt(recipe.CraftedQuantity, 10);
+  return Number.isFinite(n) && n > 0 ? n : 1;
+}
+
+/** Direct ingredients of a recipe, with SourceQuantity defaulting to 1 like RecipeCard does. */
+export function ingredientsOf(recipe: CraftingRecipe): { name: string; qty: number }[] {
+  return recipe.SourceItem.map((name, i) => ({ name, qty: recipe.SourceQuantity[i] ?? 1 }));
+}
+
+/**
+ * Expand `needed` units of `name` down to raw materials, rounding every intermediate up to
+ * whole crafts. Items not in craftableByName are leaves; so is a recipe already on the path.
+ * `recipe` overrides the variant used for `name` itself (e.g. an alternate picked in SidePanel).
+ * Each branch rounds on its own, so the tree is for display; totals come from bomTotals.
+ */
+export function expandBom(
+  name: string,
+  needed: number,
+  craftableByName: Map<string, CraftingRecipe>,
+  path: Set<string> = new Set(),
+  recipe: CraftingRecipe | null = craftableByName.get(name) ?? null
+): BomNode {
+  if (!recipe) return { name, needed, recipe: null, crafts: 0, produced: needed, children: [] };
+  if (path.has(name)) return { name, needed, recipe, crafts: 0, produced: needed, children: [], cycle: true };
+
+  const perCraft = craftedQuantityOf(recipe);
+  const crafts = Math.ceil(needed / perCraft);
+  const nextPath = new Set(path).add(name);
+  const children = ingredientsOf(recipe).map((ing) =>
+    expandBom(ing.name, ing.qty * crafts, craftableByName, nextPath)
+  );
+  return { name, needed, recipe, crafts, produced: crafts * perCraft, children };
+}
+
+/** Something to produce; `recipe` overrides the variant used for that item, as in expandBom. */
+export interface BomTarget {
+  name: string;
+  qty: number;
+  recipe?: CraftingRecipe | null;
+}
+
+/** Crafts of one intermediate (or target) recipe across the whole plan. */
+export interface CraftTotal {
+  name: string;
+  recipe: CraftingRecipe;
+  /** Units needed by everything that uses it, summed before rounding. */
+  needed: number;
+  crafts: number;
+  produced: number;
+}
+
+export interface BomTotals {
+  /** Parents before their ingredients. */
+  crafts: CraftTotal[];
+  /** Sorted by name. */
+  raw: RawTotal[];
+}
+
+/**
+ * Whole-craft totals for producing every target together. Demand for an intermediate is summed
+ * over everything that needs it and rounded up to whole crafts once, so an item used in several
+ * branches (or by several targets) isn't over-crafted the way expandBom's per-branch tree is.
+ * Items not in craftableByName are raw materials; an ingredient that loops back into an item
+ * still being expanded counts as raw there, as expandBom's cycle leaves do. Targets without a
+ * recipe are skipped.
+ *
+ * Totals are per recipe rather than per item: a target's override applies to that target alone,
+ * as in expandBom, so two targets may craft the same item with different variants.
+ */
+export function bomTotals(targets: BomTarget[], craftableByName: Map<string, CraftingRecipe>): BomTotals {
+  const recipeOf = (t: BomTarget) => t.recipe ?? craftableByName.get(t.name) ?? null;
+
+  // Depth-first post-order; reversed, it lists every recipe before those of its ingredients.
+  const visited = new Set<CraftingRecipe>();
+  const open = new Set<string>();
+  /** Ingredients of each recipe that loop back into an item open at the time. */
+  const cycleEdges = new Map<CraftingRecipe, Set<string>>();
+  const order: CraftingRecipe[] = [];
+  const visit = (recipe: CraftingRecipe) => {
+    visited.add(recipe);
+    open.add(recipe.CraftedItem);
+    ingredientsOf(recipe).forEach((ing) => {
+      const sub = craftableByName.get(ing.name);
+      if (!sub) return;
+      if (open.has(ing.name)) cycleEdges.set(recipe, (cycleEdges.get(recipe) ?? new Set()).add(ing.name));
+      else if (!visited.has(sub)) visit(sub);
+    });
+    open.delete(recipe.CraftedItem);
+    order.push(recipe);
+  };
+  targets.forEach((t) => {
+    const recipe = recipeOf(t);
+    if (recipe && !visited.has(recipe)) visit(recipe);
+  });
+  order.reverse();
+
+  const add = <K>(map: Map<K, number>, key: K, qty: number) => map.set(key, (map.get(key) ?? 0) + qty);
+  const demand = new Map<CraftingRecipe, number>();
+  const raw = new Map<string, number>();
+  targets.forEach((t) => {
+    const recipe = recipeOf(t);
+    if (recipe) add(demand, recipe, t.qty);
+  });
+
+  const crafts: CraftTotal[] = [];
+  order.forEach((recipe) => {
+    const needed = demand.get(recipe) ?? 0;
+    if (needed <= 0) return;
+    const perCraft = craftedQuantityOf(recipe);
+    const count = Math.ceil(needed / perCraft);
+    crafts.push({ name: recipe.CraftedItem, recipe, needed, crafts: count, produced: count * perCraft });
+    ingredientsOf(recipe).forEach((ing) => {
+      const sub = craftableByName.get(ing.name);
+      if (sub && !cycleEdges.get(recipe)?.has(ing.name)) add(demand, sub, ing.qty * count);
+      else add(raw, ing.name, ing.qty * count);
+    });
+  });
+
+  return {
+    crafts,
+    raw: Array.from(raw, ([name, qty]) => ({ name, qty })).sort((a, b) => a.name.localeCompare(b.name)),
+  };
+}
+
+/**
+ * Pick, per item, the variant with the fewest raw-material units per unit produced, choosing
+ * cheapest variants all the way down. Use the result wherever a craftableByName map is expected.
+ *
+ * Items are costed ingredients first, a loop (strongly connected component) at a time. The cost
+ * of an item in a loop depends on where the costing started, so each member is costed from
+ * itself, reusing only what that costing has already worked out; every item is thus chosen the
+ * same way whatever order the map is in, and a loop of n items takes n passes over it.
+ */
+export function cheapestRecipes(recipesByName: Map<string, CraftingRecipe[]>): Map<string, CraftingRecipe> {
+  const unitCost = new Map<string, number>();
+  const chosen = new Map<string, CraftingRecipe>();
+  const loops = stronglyConnected(recipesByName.keys(), (name) => recipesByName.get(name)!.flatMap((r) => r.SourceItem));
+
+  loops.forEach((loop) => {
+    const members = new Set(loop);
+    loop.forEach((start) => {
+      const costed = new Map<string, number>();
+      const open = new Set<string>();
+      const costOf = (name: string): number => {
+        const variants = recipesByName.get(name);
+        if (!variants?.length) return 1;
+        if (!members.has(name)) return unitCost.get(name)!;
+        // A variant that loops back into an item being costed can't be the cheap way to make it.
+        if (open.has(name)) return Infinity;
+        const known = costed.get(name);
+        if (known !== undefined) return known;
+        open.add(name);
+        let best = variants[0];
+        let bestCost = Infinity;
+        variants.forEach((recipe) => {
+          const cost =
+            ingredientsOf(recipe).reduce((sum, ing) => sum + ing.qty * costOf(ing.name), 0) / craftedQuantityOf(recipe);
+          if (cost < bestCost) {
+            best = recipe;
+            bestCost = cost;
+          }
+        });
+        open.delete(name);
+        costed.set(name, bestCost);
+        if (name === start) chosen.set(name, best);
+        return bestCost;
+      };
+      unitCost.set(start, costOf(start));
+    });
+  });
+
+  return chosen;
+}
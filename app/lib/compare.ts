@@ -0,0 +1,54 @@
+import type { CraftingRecipe } from "@/app/types/items";
+import { bomTotals, craftedQuantityOf, ingredientsOf } from "@/app/lib/bom";
+
+/** Columns in the comparison table; more stop fitting beside the row labels. */
+export const MAX_COMPARE = 4;
+
+/** One item across the compared recipes. */
+export interface CompareRow {
+  name: string;
+  /** Per recipe, in column order; null where that recipe doesn't use the item. */
+  values: (number | null)[];
+  /** False when every recipe has the same value (including all-null). */
+  differs: boolean;
+}
+
+export interface Comparison {
+  /** Direct ingredients, aligned by name across recipes. */
+  ingredients: CompareRow[];
+  /** Raw materials for one craft of each recipe, expanded like the bill of materials. */
+  raw: CompareRow[];
+}
+
+export function valuesDiffer(values: unknown[]): boolean {
+  return values.some((v) => v !== values[0]);
+}
+
+function alignRows(lists: { name: string; qty: number }[][]): CompareRow[] {
+  const names = Array.from(new Set(lists.flatMap((list) => list.map((e) => e.name)))).sort((a, b) => a.localeCompare(b));
+  return names.map((name) => {
+    const values = lists.map((list) => {
+      const entries = list.filter((e) => e.name === name);
+      return entries.length ? entries.reduce((sum, e) => sum + e.qty, 0) : null;
+    });
+    return { name, values, differs: valuesDiffer(values) };
+  });
+}
+
+/** Ingredient and raw-material rows for the given recipes (variants of one item are fine). */
+export function compareRecipes(recipes: CraftingRecipe[], craftableByName: Map<string, CraftingRecipe>): Comparison {
+  return {
+    ingredients: alignRows(recipes.map(ingredientsOf)),
+    raw: alignRows(
+      recipes.map(
+        (recipe) => bomTotals([{ name: recipe.CraftedItem, qty: craftedQuantityOf(recipe), recipe }], craftableByName).raw
+      )
+    ),
+  };
+}
+
+/** Add or remove a recipe; adding to a full list is a no-op. */
+export function toggleCompared(list: CraftingRecipe[], recipe: CraftingRecipe): CraftingRecipe[] {
+  if (list.includes(recipe)) return list.filter((r) => r !== recipe);
+  return list.length >= MAX_COMPARE ? list : [...list, recipe];
+}
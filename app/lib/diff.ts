@@ -0,0 +1,121 @@
+import type { CraftingRecipe } from "@/app/types/items";
+
+/** Enough of a recipe to tell variants of the same item apart in a changelog. */
+export interface RecipeRef {
+  item: string;
+  crafter: string;
+  workshop: string | null;
+}
+
+export type RecipeFieldChange =
+  | { field: "Crafter" | "Workshop" | "Workshop2" | "CraftedQuantity"; before: string | null; after: string | null }
+  /** before/after are null when the ingredient was added/removed. */
+  | { field: "ingredient"; name: string; before: number | null; after: number | null };
+
+export interface ChangedRecipe extends RecipeRef {
+  changes: RecipeFieldChange[];
+}
+
+export interface SnapshotDiff {
+  added: RecipeRef[];
+  removed: RecipeRef[];
+  changed: ChangedRecipe[];
+}
+
+/** One diff between consecutive snapshots, as stored in public/changes.json. */
+export interface ChangeLogEntry extends SnapshotDiff {
+  /** Snapshot the diff starts from (file name or ISO timestamp). */
+  from: string;
+  /** ISO timestamp of the newer snapshot; used to date the entry. */
+  to: string;
+}
+
+export interface ChangeLog {
+  /** Newest first. */
+  entries: ChangeLogEntry[];
+}
+
+const refOf = (r: CraftingRecipe): RecipeRef => ({ item: r.CraftedItem, crafter: r.Crafter, workshop: r.Workshop });
+const variantKey = (r: CraftingRecipe) => JSON.stringify([r.CraftedItem, r.Crafter, r.Workshop, r.Workshop2 ?? null]);
+
+function quantities(r: CraftingRecipe): Map<string, number> {
+  const map = new Map<string, number>();
+  r.SourceItem.forEach((name, i) => map.set(name, (map.get(name) ?? 0) + (r.SourceQuantity[i] ?? 1)));
+  return map;
+}
+
+export function diffRecipe(before: CraftingRecipe, after: CraftingRecipe): RecipeFieldChange[] {
+  const changes: RecipeFieldChange[] = [];
+  (["Crafter", "Workshop", "Workshop2", "CraftedQuantity"] as const).forEach((field) => {
+    const a = before[field] || null;
+    const b = after[field] || null;
+    if (a !== b) changes.push({ field, before: a, after: b });
+  });
+  const qa = quantities(before);
+  const qb = quantities(after);
+  const names = Array.from(new Set([...qa.keys(), ...qb.keys()])).sort((x, y) => x.localeCompare(y));
+  names.forEach((name) => {
+    const a = qa.get(name) ?? null;
+    const b = qb.get(name) ?? null;
+    if (a !== b) changes.push({ field: "ingredient", name, before: a, after: b });
+  });
+  return changes;
+}
+
+/**
+ * Compare two snapshots. Items with a single recipe on both sides are compared directly, so a
+ * crafter or workshop move shows up as a change; items with several variants are matched by
+ * item, crafter and workshops, and unmatched variants count as added/removed.
+ */
+export function diffSnapshots(before: CraftingRecipe[], after: CraftingRecipe[]): SnapshotDiff {
+  const byItem = (list: CraftingRecipe[]) => {
+    const map = new Map<string, CraftingRecipe[]>();
+    list.forEach((r) => map.set(r.CraftedItem, [...(map.get(r.CraftedItem) ?? []), r]));
+    return map;
+  };
+  const a = byItem(before);
+  const b = byItem(after);
+  const diff: SnapshotDiff = { added: [], removed: [], changed: [] };
+  const compare = (x: CraftingRecipe, y: CraftingRecipe) => {
+    const changes = diffRecipe(x, y);
+    if (changes.length) diff.changed.push({ ...refOf(y), changes });
+  };
+
+  const items = Array.from(new Set([...a.keys(), ...b.keys()])).sort((x, y) => x.localeCompare(y));
+  items.forEach((item) => {
+    const olds = a.get(item) ?? [];
+    const news = b.get(item) ?? [];
+    if (olds.length === 1 && news.length === 1) {
+      compare(olds[0], news[0]);
+      return;
+    }
+    const newByKey = new Map(news.map((r) => [variantKey(r), r]));
+    olds.forEach((r) => {
+      const match = newByKey.get(variantKey(r));
+      if (!match) {
+        diff.removed.push(refOf(r));
+        return;
+      }
+      newByKey.delete(variantKey(r));
+      compare(r, match);
+    });
+    newByKey.forEach((r) => diff.added.push(refOf(r)));
+  });
+  return diff;
+}
+
+export const isEmptyDiff = (d: SnapshotDiff) => !d.added.length && !d.removed.length && !d.changed.length;
+
+/** Items added or changed in entries dated on or after `since`; "new" wins over "changed". */
+export function recentChanges(log: ChangeLog, since: Date): Map<string, "new" | "changed"> {
+  const map = new Map<string, "new" | "changed">();
+  log.entries
+    .filter((e) => new Date(e.to) >= since)
+    .forEach((e) => {
+      e.added.forEach((r) => map.set(r.item, "new"));
+      e.changed.forEach((r) => {
+        if (!map.has(r.item)) map.set(r.item, "changed");
+      });
+    });
+  return map;
+}
@@ -0,0 +1,98 @@
+import type { CraftingRecipe } from "@/app/types/items";
+import { bomTotals, type BomNode } from "@/app/lib/bom";
+
+export type ExportFormat = "csv" | "json" | "markdown";
+export const EXPORT_FORMATS: ExportFormat[] = ["csv", "json", "markdown"];
+export const isExportFormat = (v: unknown): v is ExportFormat => EXPORT_FORMATS.includes(v as ExportFormat);
+
+const FILE_TYPES: Record<ExportFormat, { extension: string; mime: string }> = {
+  csv: { extension: "csv", mime: "text/csv" },
+  json: { extension: "json", mime: "application/json" },
+  markdown: { extension: "md", mime: "text/markdown" },
+};
+
+/** What a recipe export lists: its direct ingredients, or everything down to raw materials. */
+export type PlanScope = "direct" | "raw";
+
+type Cell = string | number | null | undefined;
+
+function csvCell(value: Cell): string {
+  const s = value == null ? "" : String(value);
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function toCsv(headers: string[], rows: Cell[][]): string {
+  // CRLF per RFC 4180, which spreadsheets expect.
+  return [headers, ...rows].map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
+
+function markdownCell(value: Cell): string {
+  return (value == null ? "" : String(value)).replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+function toMarkdownTable(headers: string[], rows: Cell[][]): string {
+  const line = (cells: Cell[]) => `| ${cells.map(markdownCell).join(" | ")} |`;
+  return [line(headers), `| ${headers.map(() => "---").join(" | ")} |`, ...rows.map(line)].join("\n") + "\n";
+}
+
+const ingredientList = (recipe: CraftingRecipe) =>
+  recipe.SourceItem.map((name, i) => `${recipe.SourceQuantity[i] ?? 1}× ${name}`).join("; ");
+
+/** The result list: one row per recipe, ingredients joined into one column. */
+export function exportRecipeList(recipes: CraftingRecipe[], format: ExportFormat): string {
+  if (format === "json") return JSON.stringify(recipes, null, 2) + "\n";
+  const headers = ["Item", "Yield", "Crafter", "Workshop", "Workshop 2", "Ingredients"];
+  const rows = recipes.map((r) => [r.CraftedItem, r.CraftedQuantity, r.Crafter, r.Workshop, r.Workshop2, ingredientList(r)]);
+  return format === "csv" ? toCsv(headers, rows) : toMarkdownTable(headers, rows);
+}
+
+/** A single recipe (or plan from planRecipe): one row per ingredient. */
+export function exportRecipe(recipe: CraftingRecipe, format: ExportFormat): string {
+  if (format === "json") return JSON.stringify(recipe, null, 2) + "\n";
+  const rows = recipe.SourceItem.map((name, i) => [name, recipe.SourceQuantity[i] ?? 1]);
+  if (format === "csv") {
+    return toCsv(
+      ["Item", "Yield", "Ingredient", "Quantity"],
+      rows.map(([name, qty]) => [recipe.CraftedItem, recipe.CraftedQuantity, name, qty])
+    );
+  }
+  const stations = [recipe.Crafter, recipe.Workshop, recipe.Workshop2].filter(Boolean).join(" · ");
+  const heading = `**${markdownCell(recipe.CraftedItem)}** ×${recipe.CraftedQuantity}${stations ? ` (${stations})` : ""}`;
+  return `${heading}\n\n${toMarkdownTable(["Ingredient", "Quantity"], rows)}`;
+}
+
+/**
+ * A bill of materials as a CraftingRecipe, so it exports like any other recipe: the root's direct
+ * ingredients for all its crafts, or the raw-material totals (bomTotals over the same
+ * craftableByName the tree was expanded with). CraftedQuantity is what gets produced.
+ */
+export function planRecipe(tree: BomNode, scope: PlanScope, craftableByName: Map<string, CraftingRecipe>): CraftingRecipe {
+  const recipe = tree.recipe;
+  const ingredients =
+    scope === "raw"
+      ? bomTotals([{ name: tree.name, qty: tree.needed, recipe }], craftableByName).raw
+      : tree.children.map((child) => ({ name: child.name, qty: child.needed }));
+  return {
+    CraftedItem: tree.name,
+    Crafter: recipe?.Crafter ?? "",
+    Workshop: recipe?.Workshop ?? null,
+    Workshop2: recipe?.Workshop2 ?? null,
+    CraftedQuantity: String(tree.produced),
+    SourceItem: ingredients.map((i) => i.name),
+    SourceQuantity: ingredients.map((i) => i.qty),
+  };
+}
+
+export function exportFileName(base: string, format: ExportFormat): string {
+  return `${base}.${FILE_TYPES[format].extension}`;
+}
+
+/** Save text as a file via a temporary object URL; nothing leaves the browser. */
+export function downloadText(text: string, fileName: string, format: ExportFormat) {
+  const url = URL.createObjectURL(new Blob([text], { type: `${FILE_TYPES[format].mime};charset=utf-8` }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
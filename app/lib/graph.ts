@@ -0,0 +1,87 @@
+import type { CraftingRecipe } from "@/app/types/items";
+import { ingredientsOf } from "@/app/lib/bom";
+import type { UsedIn } from "@/app/lib/recipes";
+
+export interface GraphNode {
+  name: string;
+  /** 0 for the center; negative for ingredients (upstream), positive for consumers (downstream). */
+  layer: number;
+  recipe: CraftingRecipe | null;
+}
+
+/** Ingredient → product, with how many one craft of the product takes. */
+export interface GraphEdge {
+  from: string;
+  to: string;
+  qty: number;
+}
+
+export interface DependencyGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  /** Nodes left out per layer because the layer hit maxPerLayer. */
+  hidden: Record<number, number>;
+}
+
+/**
+ * Breadth-first neighbourhood of `center`: `depth` layers of ingredients upstream and of consuming
+ * recipes downstream. Each item appears once, on the layer it is first reached from; layers are
+ * capped at maxPerLayer so a common material doesn't pull in hundreds of consumers.
+ */
+export function buildDependencyGraph(
+  center: string,
+  depth: number,
+  craftableByName: Map<string, CraftingRecipe>,
+  usedInByName: Map<string, UsedIn[]>,
+  maxPerLayer = 30
+): DependencyGraph {
+  const nodes = new Map<string, GraphNode>([[center, { name: center, layer: 0, recipe: craftableByName.get(center) ?? null }]]);
+  const edges: GraphEdge[] = [];
+  const edgeKeys = new Set<string>();
+  const hidden: Record<number, number> = {};
+  const addEdge = (edge: GraphEdge) => {
+    const key = `${edge.from}\u0000${edge.to}`;
+    if (edgeKeys.has(key)) return;
+    edgeKeys.add(key);
+    edges.push(edge);
+  };
+
+  const neighboursOf = (name: string, direction: 1 | -1): { name: string; edge: GraphEdge }[] => {
+    if (direction === 1) {
+      return (usedInByName.get(name) ?? []).map((u) => ({
+        name: u.recipe.CraftedItem,
+        edge: { from: name, to: u.recipe.CraftedItem, qty: u.qty },
+      }));
+    }
+    const recipe = craftableByName.get(name);
+    if (!recipe) return [];
+    return ingredientsOf(recipe).map((ing) => ({ name: ing.name, edge: { from: ing.name, to: name, qty: ing.qty } }));
+  };
+
+  const expand = (direction: 1 | -1) => {
+    let frontier = [center];
+    for (let step = 1; step <= depth && frontier.length; step++) {
+      const layer = step * direction;
+      const next: string[] = [];
+      frontier.forEach((name) => {
+        const neighbours = neighboursOf(name, direction);
+        neighbours.forEach(({ name: neighbour, edge }) => {
+          if (!nodes.has(neighbour)) {
+            if (next.length >= maxPerLayer) {
+              hidden[layer] = (hidden[layer] ?? 0) + 1;
+              return;
+            }
+            nodes.set(neighbour, { name: neighbour, layer, recipe: craftableByName.get(neighbour) ?? null });
+            next.push(neighbour);
+          }
+          addEdge(edge);
+        });
+      });
+      frontier = next;
+    }
+  };
+  expand(-1);
+  expand(1);
+
+  return { nodes: Array.from(nodes.values()), edges, hidden };
+}
@@ -0,0 +1,130 @@
+/**
+ * Integrity checks over the whole recipe graph, run by scripts/check-integrity.ts and shown on
+ * /diagnostics. Unlike the schema (app/lib/schema.ts), these look across records.
+ */
+import type { CraftingRecipe } from "@/app/types/items";
+import { validateRecipes } from "@/app/lib/schema";
+import { stronglyConnected } from "@/app/lib/scc";
+
+export interface DanglingIngredient {
+  name: string;
+  /** Items whose recipes use it. */
+  usedBy: string[];
+  /** A crafted item whose name differs only in case, separators or a plural "s". */
+  suggestion?: string;
+}
+
+export interface QuantityIssue {
+  item: string | null;
+  crafter: string | null;
+  message: string;
+}
+
+export interface IntegrityReport {
+  generatedAt: string;
+  source: string;
+  recipeCount: number;
+  /** Ingredients no recipe crafts and that aren't known raw materials. */
+  danglingIngredients: DanglingIngredient[];
+  /** Groups of items that (indirectly) require each other, each sorted by name. */
+  cycles: string[][];
+  quantityIssues: QuantityIssue[];
+}
+
+/** Maximum allowed count per section; an omitted section is not enforced. */
+export interface IntegrityThresholds {
+  dangling?: number;
+  cycles?: number;
+  quantity?: number;
+}
+
+const looseName = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[_\s-]+/g, " ")
+    .trim()
+    .replace(/s$/, "");
+
+function findDangling(recipes: CraftingRecipe[], rawMaterials: Set<string>): DanglingIngredient[] {
+  const crafted = new Set(recipes.map((r) => r.CraftedItem));
+  const byLooseName = new Map(Array.from(crafted, (name) => [looseName(name), name]));
+  const usedBy = new Map<string, Set<string>>();
+  recipes.forEach((r) =>
+    r.SourceItem.forEach((name) => {
+      if (crafted.has(name) || rawMaterials.has(name)) return;
+      if (!usedBy.has(name)) usedBy.set(name, new Set());
+      usedBy.get(name)!.add(r.CraftedItem);
+    })
+  );
+  return Array.from(usedBy, ([name, users]) => {
+    const suggestion = byLooseName.get(looseName(name));
+    return { name, usedBy: [...users].sort(), ...(suggestion ? { suggestion } : {}) };
+  }).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Strongly connected components of the item → ingredient graph that contain a loop. */
+function findCycles(recipes: CraftingRecipe[]): string[][] {
+  const edges = new Map<string, Set<string>>();
+  recipes.forEach((r) => {
+    if (!edges.has(r.CraftedItem)) edges.set(r.CraftedItem, new Set());
+    r.SourceItem.forEach((name) => edges.get(r.CraftedItem)!.add(name));
+  });
+
+  return stronglyConnected(edges.keys(), (name) => edges.get(name)!)
+    .filter((component) => component.length > 1 || edges.get(component[0])!.has(component[0]))
+    .map((component) => component.sort())
+    .sort((a, b) => a[0].localeCompare(b[0]));
+}
+
+/** Larger amounts than any recipe in the game uses; past this a quantity is almost surely a typo. */
+export const MAX_PLAUSIBLE_QUANTITY = 999;
+
+/**
+ * Quantity problems the schema lets through (it already rejects missing, zero and mismatched
+ * quantities): an ingredient listed twice in one recipe, which is usually two variants merged
+ * into one on the wiki, fractional amounts, and implausibly large ones.
+ */
+function findQuantityIssues(recipes: CraftingRecipe[]): QuantityIssue[] {
+  const issues: QuantityIssue[] = [];
+  recipes.forEach((r) => {
+    const issue = (message: string) => issues.push({ item: r.CraftedItem, crafter: r.Crafter || null, message });
+
+    const crafted = Number(r.CraftedQuantity);
+    if (crafted > MAX_PLAUSIBLE_QUANTITY) issue(`CraftedQuantity ${crafted} is implausibly large`);
+
+    const seen = new Set<string>();
+    r.SourceItem.forEach((name, i) => {
+      if (seen.has(name)) issue(`${name} is listed more than once`);
+      seen.add(name);
+      const q = r.SourceQuantity[i];
+      if (!Number.isInteger(q)) issue(`${name}: quantity ${q} is not a whole number`);
+      else if (q > MAX_PLAUSIBLE_QUANTITY) issue(`${name}: quantity ${q} is implausibly large`);
+    });
+  });
+  return issues;
+}
+
+/** Analyze normalized records against the list of known raw materials; invalid ones are skipped. */
+export function analyzeIntegrity(source: string, records: unknown[], rawMaterials: Iterable<string>): IntegrityReport {
+  const { recipes } = validateRecipes(records);
+  return {
+    generatedAt: new Date().toISOString(),
+    source,
+    recipeCount: recipes.length,
+    danglingIngredients: findDangling(recipes, new Set(rawMaterials)),
+    cycles: findCycles(recipes),
+    quantityIssues: findQuantityIssues(recipes),
+  };
+}
+
+/** Human-readable reasons the report exceeds the thresholds; empty when it passes. */
+export function exceededThresholds(report: IntegrityReport, thresholds: IntegrityThresholds): string[] {
+  const checks: [keyof IntegrityThresholds, string, number][] = [
+    ["dangling", "dangling ingredients", report.danglingIngredients.length],
+    ["cycles", "dependency cycles", report.cycles.length],
+    ["quantity", "quantity issues", report.quantityIssues.length],
+  ];
+  return checks
+    .filter(([key, , count]) => thresholds[key] !== undefined && count > thresholds[key]!)
+    .map(([key, label, count]) => `${count} ${label} (max ${thresholds[key]})`);
+}
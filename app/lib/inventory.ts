@@ -0,0 +1,136 @@
+import type { CraftingRecipe } from "@/app/types/items";
+import { craftedQuantityOf, ingredientsOf } from "@/app/lib/bom";
+
+export type Inventory = Map<string, number>;
+
+export interface ParsedInventory {
+  inventory: Inventory;
+  /** Lines that had no recognizable count, or named an item the data does not know. */
+  warnings: string[];
+}
+
+export interface Craftability {
+  recipe: CraftingRecipe;
+  /** How many crafts the inventory covers right now (capped at MAX_CRAFTS). */
+  maxCrafts: number;
+  /** What one more craft is short of; raw materials when intermediates are counted. */
+  missing: { name: string; qty: number }[];
+  /** False when the inventory contributes nothing towards the next craft. */
+  usesInventory: boolean;
+}
+
+const MAX_CRAFTS = 999;
+
+/**
+ * Parse pasted inventory, one item per line. Accepts "Iron Bar: 20", "Iron Bar, 20", "Iron Bar x20",
+ * "Iron Bar<TAB>20" (spreadsheet paste), "20 Iron Bar" and "20x Iron Bar". Names are matched
+ * case-insensitively against knownNames; repeated lines for the same item are summed.
+ */
+export function parseInventory(text: string, knownNames: Iterable<string>): ParsedInventory {
+  const canonical = new Map<string, string>();
+  for (const name of knownNames) canonical.set(name.toLowerCase(), name);
+
+  const inventory: Inventory = new Map();
+  const warnings: string[] = [];
+  text.split(/\r?\n/).forEach((rawLine) => {
+    const line = rawLine.trim();
+    if (!line) return;
+    const countFirst = line.match(/^(\d+)\s*[x×]?\s+(.+)$/i);
+    const countLast = line.match(/^(.+?)\s*(?:[:,=\t]\s*|\s+)[x×]?\s*(\d+)$/i);
+    const match = countFirst ? { name: countFirst[2], count: countFirst[1] } : countLast ? { name: countLast[1], count: countLast[2] } : null;
+    if (!match) {
+      warnings.push(`No count in "${line}"`);
+      return;
+    }
+    const name = canonical.get(match.name.trim().toLowerCase());
+    if (!name) {
+      warnings.push(`Unknown item "${match.name.trim()}"`);
+      return;
+    }
+    inventory.set(name, (inventory.get(name) ?? 0) + parseInt(match.count, 10));
+  });
+  return { inventory, warnings };
+}
+
+/**
+ * Take qty of name out of inv. With intermediates, any shortfall of a craftable item is crafted
+ * from what is left (surplus goes back into inv); whatever still can't be covered lands in missing.
+ */
+function consume(
+  name: string,
+  qty: number,
+  inv: Inventory,
+  craftableByName: Map<string, CraftingRecipe>,
+  intermediates: boolean,
+  path: Set<string>,
+  missing: Map<string, number>
+): void {
+  const have = inv.get(name) ?? 0;
+  const take = Math.min(have, qty);
+  inv.set(name, have - take);
+  const rest = qty - take;
+  if (rest === 0) return;
+
+  const recipe = intermediates ? craftableByName.get(name) : undefined;
+  if (!recipe || path.has(name)) {
+    missing.set(name, (missing.get(name) ?? 0) + rest);
+    return;
+  }
+  const perCraft = craftedQuantityOf(recipe);
+  const crafts = Math.ceil(rest / perCraft);
+  const nextPath = new Set(path).add(name);
+  ingredientsOf(recipe).forEach((ing) =>
+    consume(ing.name, ing.qty * crafts, inv, craftableByName, intermediates, nextPath, missing)
+  );
+  const surplus = crafts * perCraft - rest;
+  if (surplus > 0) inv.set(name, (inv.get(name) ?? 0) + surplus);
+}
+
+/** What crafting `crafts` times from a copy of the inventory would be short of. */
+function shortfall(
+  recipe: CraftingRecipe,
+  crafts: number,
+  inventory: Inventory,
+  craftableByName: Map<string, CraftingRecipe>,
+  intermediates: boolean
+): Map<string, number> {
+  const inv = new Map(inventory);
+  const missing = new Map<string, number>();
+  const path = new Set([recipe.CraftedItem]);
+  ingredientsOf(recipe).forEach((ing) =>
+    consume(ing.name, ing.qty * crafts, inv, craftableByName, intermediates, path, missing)
+  );
+  return missing;
+}
+
+/** How often a recipe can be crafted from the inventory, and what the next craft is missing. */
+export function craftability(
+  recipe: CraftingRecipe,
+  inventory: Inventory,
+  craftableByName: Map<string, CraftingRecipe>,
+  intermediates: boolean
+): Craftability {
+  const fits = (n: number) => shortfall(recipe, n, inventory, craftableByName, intermediates).size === 0;
+
+  // Gallop up to the first count that doesn't fit, then binary search below it.
+  let lo = 0;
+  let hi = 1;
+  while (hi <= MAX_CRAFTS && fits(hi)) {
+    lo = hi;
+    hi *= 2;
+  }
+  hi = Math.min(hi, MAX_CRAFTS + 1);
+  while (hi - lo > 1) {
+    const mid = Math.floor((lo + hi) / 2);
+    if (fits(mid)) lo = mid;
+    else hi = mid;
+  }
+
+  if (lo >= MAX_CRAFTS) return { recipe, maxCrafts: lo, missing: [], usesInventory: true };
+  const next = shortfall(recipe, lo + 1, inventory, craftableByName, intermediates);
+  const missing = Array.from(next, ([name, qty]) => ({ name, qty })).sort((a, b) => a.name.localeCompare(b.name));
+  const total = (m: Map<string, number>) => Array.from(m.values()).reduce((a, b) => a + b, 0);
+  const usesInventory =
+    lo > 0 || total(next) < total(shortfall(recipe, 1, new Map(), craftableByName, intermediates));
+  return { recipe, maxCrafts: lo, missing, usesInventory };
+}
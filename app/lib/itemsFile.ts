@@ -0,0 +1,15 @@
+import fs from "fs";
+import path from "path";
+import type { CraftingRecipe } from "@/app/types/items";
+import { validateRecipes } from "@/app/lib/schema";
+import { decodePayload } from "@/app/lib/payload";
+
+/**
+ * Reads public/items.json from disk for build-time rendering (and Node tooling), the same payload
+ * useItems fetches in the browser. Invalid records are dropped, as in the client; an unknown
+ * payload version throws.
+ */
+export function readItemsFile(file: string = path.join(process.cwd(), "public", "items.json")): CraftingRecipe[] {
+  if (!fs.existsSync(file)) return [];
+  return validateRecipes(decodePayload(JSON.parse(fs.readFileSync(file, "utf8"))).records).recipes;
+}
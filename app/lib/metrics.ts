@@ -0,0 +1,103 @@
+import type { CraftingRecipe } from "@/app/types/items";
+import { craftedQuantityOf, ingredientsOf } from "@/app/lib/bom";
+import { stronglyConnected } from "@/app/lib/scc";
+
+/** Computed per recipe, for RecipeCard, sorting and the cost/materials/depth/workshops filters. */
+export interface RecipeMetrics {
+  /** Raw-material units per unit produced, fractional (a recipe yielding 20 spreads its cost). */
+  cost: number;
+  /** Distinct raw materials anywhere in the chain. */
+  materials: number;
+  /** Longest crafting chain: 1 for a recipe of raw materials only. */
+  depth: number;
+  /** Distinct workshops (Workshop and Workshop2) used by this recipe and every intermediate. */
+  workshops: number;
+}
+
+export type MetricKey = keyof RecipeMetrics;
+export const METRIC_KEYS: MetricKey[] = ["cost", "materials", "depth", "workshops"];
+
+interface Chain {
+  cost: number;
+  materials: Set<string>;
+  depth: number;
+  workshops: Set<string>;
+}
+
+const RAW = (name: string): Chain => ({ cost: 1, materials: new Set([name]), depth: 0, workshops: new Set() });
+
+/**
+ * Metrics for every recipe, in the same order as `items`. Intermediates use the craftableByName
+ * variant (as the bill of materials does); an ingredient that loops back into its own chain counts
+ * as a raw material there. Items are expanded ingredients first, a loop (strongly connected
+ * component) at a time: chains of items in a loop depend on where the expansion started, so each
+ * is expanded from itself, reusing only what that expansion has already worked out. Results don't
+ * depend on the order of `items`.
+ */
+export function computeMetrics(items: CraftingRecipe[], craftableByName: Map<string, CraftingRecipe>): RecipeMetrics[] {
+  const components = stronglyConnected(craftableByName.keys(), (name) => craftableByName.get(name)!.SourceItem);
+  /** The loop each item is part of; items outside any loop have none. */
+  const loopOf = new Map<string, Set<string>>();
+  components.forEach((component) => {
+    if (component.length === 1 && !craftableByName.get(component[0])!.SourceItem.includes(component[0])) return;
+    const loop = new Set(component);
+    component.forEach((name) => loopOf.set(name, loop));
+  });
+  /** Chains of items expanded from themselves; filled ingredients first. */
+  const memo = new Map<string, Chain>();
+
+  /** Chain of a recipe for `name`, expanding the rest of name's loop (if any) within it. */
+  const expand = (name: string, recipe: CraftingRecipe): Chain => {
+    const loop = loopOf.get(name);
+    const open = new Set<string>();
+    const expanded = new Map<string, Chain>();
+
+    const chainOfRecipe = (recipe: CraftingRecipe): Chain => {
+      open.add(recipe.CraftedItem);
+      const chain: Chain = {
+        cost: 0,
+        materials: new Set(),
+        depth: 0,
+        workshops: new Set([recipe.Workshop, recipe.Workshop2].filter((w): w is string => Boolean(w))),
+      };
+      ingredientsOf(recipe).forEach((ing) => {
+        const sub = chainOfItem(ing.name);
+        chain.cost += ing.qty * sub.cost;
+        sub.materials.forEach((m) => chain.materials.add(m));
+        sub.workshops.forEach((w) => chain.workshops.add(w));
+        chain.depth = Math.max(chain.depth, sub.depth);
+      });
+      open.delete(recipe.CraftedItem);
+      chain.cost /= craftedQuantityOf(recipe);
+      chain.depth += 1;
+      return chain;
+    };
+
+    const chainOfItem = (name: string): Chain => {
+      const recipe = craftableByName.get(name);
+      if (!recipe || open.has(name)) return RAW(name);
+      if (!loop?.has(name)) return memo.get(name)!;
+      const known = expanded.get(name);
+      if (known) return known;
+      const chain = chainOfRecipe(recipe);
+      expanded.set(name, chain);
+      return chain;
+    };
+
+    return chainOfRecipe(recipe);
+  };
+
+  components.forEach((component) => component.forEach((name) => memo.set(name, expand(name, craftableByName.get(name)!))));
+
+  return items.map((recipe) => {
+    const name = recipe.CraftedItem;
+    const chain = recipe === craftableByName.get(name) ? memo.get(name)! : expand(name, recipe);
+    return { cost: chain.cost, materials: chain.materials.size, depth: chain.depth, workshops: chain.workshops.size };
+  });
+}
+
+/** Cost for display: whole numbers as is, fractions to one decimal, or two significant digits below 1. */
+export function formatCost(cost: number): string {
+  if (Number.isInteger(cost)) return String(cost);
+  return cost < 1 ? String(Number(cost.toPrecision(2))) : cost.toFixed(1);
+}
@@ -0,0 +1,291 @@
+/**
+ * Wiki "Obtaining" sections: fetching them from the MediaWiki API and reducing them to a small,
+ * safe subset of HTML (ObtainingNode). Used live by SidePanel and ahead of time by
+ * scripts/build-obtaining.ts, which writes public/obtaining.json so most panels never hit the wiki.
+ */
+
+export const WIKI_API = "https://enshrouded.wiki.gg/api.php";
+const WIKI_PAGE_BASE = "https://enshrouded.wiki.gg/wiki/";
+
+/** Elements kept from the wiki markup; everything else is unwrapped to its children or dropped. */
+export type ObtainingTag =
+  | "p"
+  | "ul"
+  | "ol"
+  | "li"
+  | "dl"
+  | "dt"
+  | "dd"
+  | "table"
+  | "tr"
+  | "th"
+  | "td"
+  | "b"
+  | "i"
+  | "br"
+  | "h4"
+  | "a";
+
+/** Sanitized section content: text, or an allowed element. Links only ever point at wiki pages. */
+export type ObtainingNode = string | ObtainingElement;
+
+export interface ObtainingElement {
+  tag: ObtainingTag;
+  children: ObtainingNode[];
+  /** For "a": the wiki page title it links to ("Iron Ore"), never a raw URL. */
+  page?: string;
+}
+
+/**
+ * public/obtaining.json: content per item name, null when the page has no Obtaining section.
+ * A string is plain text from builds before sections were kept structured.
+ */
+export interface ObtainingCache {
+  generatedAt: string;
+  items: Record<string, ObtainingNode[] | string | null>;
+}
+
+/**
+ * The parts of a DOM node the sanitizer needs, so the same logic runs on browser DOM nodes and on
+ * node-html-parser's at build time.
+ */
+export interface HtmlNodeLike {
+  readonly nodeType: number;
+  readonly textContent: string | null;
+  readonly childNodes: ArrayLike<HtmlNodeLike>;
+}
+
+export interface HtmlElementLike extends HtmlNodeLike {
+  readonly tagName: string;
+  getAttribute(name: string): string | null | undefined;
+  querySelector(selector: string): HtmlElementLike | null;
+}
+
+const ELEMENT_NODE = 1;
+const TEXT_NODE = 3;
+
+const RENAMED: Record<string, ObtainingTag> = {
+  strong: "b",
+  em: "i",
+  h3: "h4",
+  h5: "h4",
+  h6: "h4",
+};
+const KEPT = new Set<string>(["p", "ul", "ol", "li", "dl", "dt", "dd", "table", "tr", "th", "td", "b", "i", "br", "h4", "a"]);
+/** Dropped with their content: the section's own heading, edit links, footnotes, media, navboxes. */
+const DROPPED_TAGS = new Set(["h1", "h2", "script", "style", "noscript", "sup", "img", "figure", "audio", "video", "svg"]);
+const DROPPED_CLASSES = ["mw-editsection", "reference", "mw-references-wrap", "navbox", "toc", "thumb", "mw-empty-elt"];
+/** Children that are only whitespace are noise here (and invalid inside tables in React). */
+const STRUCTURAL = new Set<ObtainingTag>(["ul", "ol", "dl", "table", "tr"]);
+
+/** "/wiki/Iron_Ore#Locations" → "Iron Ore"; null for other sites, red links and non-article namespaces. */
+function wikiPageOf(href: string): string | null {
+  const match = href.match(/^(?:https?:\/\/enshrouded\.wiki\.gg)?\/wiki\/([^?#]+)/);
+  if (!match) return null;
+  let title: string;
+  try {
+    title = decodeURIComponent(match[1]).replace(/_/g, " ");
+  } catch {
+    return null;
+  }
+  return /^(File|Category|Special|Template|User|Help|Talk)(\s.*)?:/i.test(title) ? null : title;
+}
+
+const isElement = (node: ObtainingNode, ...tags: ObtainingTag[]) => typeof node !== "string" && tags.includes(node.tag);
+
+/** Replace each run of consecutive nodes that don't `fit` with `wrap(run)`. */
+function wrapRuns(
+  nodes: ObtainingNode[],
+  fits: (node: ObtainingNode) => boolean,
+  wrap: (run: ObtainingNode[]) => ObtainingElement
+): ObtainingNode[] {
+  const out: ObtainingNode[] = [];
+  let run: ObtainingNode[] = [];
+  const flush = () => {
+    if (run.length) out.push(wrap(run));
+    run = [];
+  };
+  nodes.forEach((node) => {
+    if (fits(node)) {
+      flush();
+      out.push(node);
+    } else run.push(node);
+  });
+  flush();
+  return out;
+}
+
+/**
+ * Tables hold only rows and rows only cells, as React's DOM nesting rules expect: cells left loose
+ * by an unwrapped <thead> or <tbody> become a row, and anything else (text, captions, lists) a
+ * full cell of its own row.
+ */
+function tableRows(children: ObtainingNode[]): ObtainingNode[] {
+  const rows = wrapRuns(children, (n) => !isElement(n, "td", "th"), (cells) => ({ tag: "tr", children: cells }));
+  return wrapRuns(rows, (n) => isElement(n, "tr"), (run) => ({ tag: "tr", children: [{ tag: "td", children: run }] }));
+}
+
+function rowCells(children: ObtainingNode[]): ObtainingNode[] {
+  return wrapRuns(children, (n) => isElement(n, "td", "th"), (run) => ({ tag: "td", children: run }));
+}
+
+function sanitizeChildren(parent: HtmlNodeLike, into: ObtainingNode[]) {
+  Array.from(parent.childNodes).forEach((child) => sanitizeNode(child, into));
+}
+
+function sanitizeNode(node: HtmlNodeLike, into: ObtainingNode[]) {
+  if (node.nodeType === TEXT_NODE) {
+    const text = (node.textContent ?? "").replace(/\s+/g, " ");
+    if (text) into.push(text);
+    return;
+  }
+  if (node.nodeType !== ELEMENT_NODE) return;
+  const el = node as HtmlElementLike;
+  const name = el.tagName.toLowerCase();
+  const classes = (el.getAttribute("class") ?? "").split(/\s+/);
+  if (DROPPED_TAGS.has(name) || DROPPED_CLASSES.some((c) => classes.includes(c))) return;
+  // Newer MediaWiki wraps headings in <div class="mw-heading mw-heading2">.
+  if (classes.includes("mw-heading2") || classes.includes("mw-heading1")) return;
+
+  const tag = RENAMED[name] ?? (KEPT.has(name) ? (name as ObtainingTag) : null);
+  // Unknown elements (span, div, thead/tbody, …) are unwrapped; the renderer adds <tbody> back.
+  if (tag === null) {
+    sanitizeChildren(el, into);
+    return;
+  }
+  if (tag === "br") {
+    into.push({ tag, children: [] });
+    return;
+  }
+
+  const children: ObtainingNode[] = [];
+  sanitizeChildren(el, children);
+  const trimmed = STRUCTURAL.has(tag) ? children.filter((c) => typeof c !== "string" || c.trim()) : children;
+  const kept = tag === "table" ? tableRows(trimmed) : tag === "tr" ? rowCells(trimmed) : trimmed;
+
+  if (tag === "a") {
+    const page = wikiPageOf(el.getAttribute("href") ?? "");
+    if (!page || classes.includes("new")) into.push(...kept);
+    else if (kept.length) into.push({ tag, page, children: kept });
+    return;
+  }
+  if (kept.length || tag === "td" || tag === "th") into.push({ tag, children: kept });
+}
+
+/**
+ * Sanitize a parsed Obtaining section (the API's section HTML, or its .mw-parser-output) into
+ * ObtainingNode. Only the tags in ObtainingTag survive, with no attributes besides link targets.
+ */
+export function sanitizeObtaining(root: HtmlElementLike): ObtainingNode[] {
+  const content = root.querySelector(".mw-parser-output") ?? root;
+  const nodes: ObtainingNode[] = [];
+  sanitizeChildren(content, nodes);
+  return nodes.filter((n) => typeof n !== "string" || n.trim());
+}
+
+/** Browser-side parsing via DOMParser; nothing is inserted into the page. */
+export function parseObtainingHtml(html: string): ObtainingNode[] {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  return sanitizeObtaining(doc.body);
+}
+
+export function wikiPageUrl(title: string): string {
+  return WIKI_PAGE_BASE + encodeURIComponent(title.replace(/ /g, "_"));
+}
+
+export interface FetchObtainingOptions {
+  apiUrl?: string;
+  /** Aborts pending requests and backoff waits; the promise rejects with an AbortError. */
+  signal?: AbortSignal;
+  /** Retries after the first attempt for network errors, 429, 5xx and wiki lag/rate limits. */
+  retries?: number;
+}
+
+const RETRY_BASE_MS = 500;
+const RETRY_MAX_MS = 8000;
+
+class RetryableError extends Error {
+  constructor(
+    message: string,
+    readonly retryAfterMs?: number
+  ) {
+    super(message);
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/** One action=parse call, retried with exponential backoff (and Retry-After) on transient failures. */
+async function parseApi(params: Record<string, string>, options: FetchObtainingOptions) {
+  const { apiUrl = WIKI_API, signal, retries = 3 } = options;
+  const url = `${apiUrl}?${new URLSearchParams({ action: "parse", redirects: "1", format: "json", origin: "*", ...params })}`;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      let res: Response;
+      try {
+        res = await fetch(url, { signal });
+      } catch (e) {
+        if (signal?.aborted) throw e;
+        throw new RetryableError(`Network error: ${(e as Error).message}`);
+      }
+      if (res.status === 429 || res.status >= 500) {
+        const retryAfter = Number(res.headers.get("Retry-After"));
+        throw new RetryableError(`Wiki API ${res.status}`, retryAfter > 0 ? Math.min(RETRY_MAX_MS, retryAfter * 1000) : undefined);
+      }
+      if (!res.ok) throw new Error(`Wiki API ${res.status}`);
+      const data = await res.json();
+      if (data.error?.code === "maxlag" || data.error?.code === "ratelimited") throw new RetryableError(data.error.info);
+      return data;
+    } catch (e) {
+      if (!(e instanceof RetryableError) || attempt >= retries) throw e;
+      const backoff = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** attempt) * (0.5 + Math.random() / 2);
+      await sleep(e.retryAfterMs ?? backoff, signal);
+    }
+  }
+}
+
+/**
+ * Fetch the HTML of an item's "Obtaining" section, following wiki redirects. Returns null when the
+ * page doesn't exist or has no Obtaining section (e.g. craft-only items).
+ */
+export async function fetchObtainingSection(itemName: string, options: FetchObtainingOptions = {}): Promise<string | null> {
+  const sectionsData = await parseApi({ page: itemName, prop: "sections" }, options);
+  if (sectionsData.error?.code === "missingtitle") return null;
+  if (sectionsData.error) throw new Error(sectionsData.error.info || sectionsData.error.code);
+  const title: string = sectionsData.parse?.title ?? itemName;
+  const sections: { line?: string; index?: string }[] = sectionsData.parse?.sections ?? [];
+  const obtaining = sections.find((s) => (s.line ?? "").replace(/<[^>]*>/g, "").trim().toLowerCase() === "obtaining");
+  if (!obtaining?.index) return null;
+  const textData = await parseApi({ page: title, prop: "text", section: obtaining.index, disableeditsection: "1" }, options);
+  if (textData.error) throw new Error(textData.error.info || textData.error.code);
+  const html = textData.parse?.text?.["*"];
+  if (typeof html !== "string") throw new Error("No content");
+  return html;
+}
+
+let cachePromise: Promise<ObtainingCache | null> | null = null;
+
+/** Load public/obtaining.json once per page; null when it is missing or unreadable. */
+export function loadObtainingCache(): Promise<ObtainingCache | null> {
+  if (!cachePromise) {
+    const base = process.env.NEXT_PUBLIC_BASE_PATH ?? "";
+    const url = base ? `${base}/obtaining.json` : "/obtaining.json";
+    cachePromise = fetch(url)
+      .then((r) => (r.ok ? (r.json() as Promise<ObtainingCache>) : null))
+      .catch(() => null);
+  }
+  return cachePromise;
+}
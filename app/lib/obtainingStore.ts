@@ -0,0 +1,75 @@
+/**
+ * IndexedDB cache of live wiki Obtaining responses (the HTML fetchObtainingSection returns), so
+ * sections opened once still show offline. Entries older than the TTL are refetched when online
+ * and used as a fallback when the wiki can't be reached.
+ */
+import { fetchObtainingSection, type FetchObtainingOptions } from "@/app/lib/obtaining";
+
+const DB_NAME = "enshrouded-crafting-index";
+const STORE = "obtaining";
+export const OBTAINING_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+interface StoredSection {
+  itemName: string;
+  /** fetchObtainingSection's result; null when the page has no Obtaining section. */
+  html: string | null;
+  fetchedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+/** Null where IndexedDB is unavailable (private windows in some browsers, SSR); callers skip the cache. */
+function openDb(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === "undefined") return resolve(null);
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: "itemName" });
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => resolve(null);
+    });
+  }
+  return dbPromise;
+}
+
+async function readSection(itemName: string): Promise<StoredSection | null> {
+  const db = await openDb();
+  if (!db) return null;
+  return new Promise((resolve) => {
+    const request = db.transaction(STORE, "readonly").objectStore(STORE).get(itemName);
+    request.onsuccess = () => resolve((request.result as StoredSection | undefined) ?? null);
+    request.onerror = () => resolve(null);
+  });
+}
+
+async function writeSection(entry: StoredSection): Promise<void> {
+  const db = await openDb();
+  if (!db) return;
+  await new Promise<void>((resolve) => {
+    const tx = db.transaction(STORE, "readwrite");
+    tx.objectStore(STORE).put(entry);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => resolve();
+  });
+}
+
+/**
+ * fetchObtainingSection through the IndexedDB cache: fresh entries skip the network, stale ones
+ * back it up. Cancelling via options.signal still rejects, even when a stale entry exists.
+ */
+export async function fetchObtainingSectionCached(
+  itemName: string,
+  options: FetchObtainingOptions = {},
+  ttlMs: number = OBTAINING_TTL_MS
+): Promise<string | null> {
+  const stored = await readSection(itemName);
+  if (stored && Date.now() - stored.fetchedAt < ttlMs) return stored.html;
+  try {
+    const html = await fetchObtainingSection(itemName, options);
+    await writeSection({ itemName, html, fetchedAt: Date.now() });
+    return html;
+  } catch (e) {
+    if (stored && !options.signal?.aborted) return stored.html;
+    throw e;
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * public/items.json format, written by scripts/copy-data.ts and read by useItems and Node tooling.
+ *
+ * Versions, all still readable:
+ *   0  a bare array of CraftingRecipe records (the original format)
+ *   1  { crafters, workshops?, items } with short-key records (SHORT_KEYS), no schemaVersion
+ *   2  { schemaVersion: 2, strings, crafters, workshops, items }: every string in a record, and
+ *      the crafter and workshop lists, is an index into `strings`
+ */
+import type { CraftingRecipe } from "@/app/types/items";
+import { fromShortRecipe, SHORT_KEYS, toShortRecipe, type ShortRecipe } from "@/app/lib/schema";
+
+export const PAYLOAD_SCHEMA_VERSION = 2;
+
+/** A short-key record whose strings (and string arrays) are indices into ItemsPayload.strings. */
+export type PackedRecipe = {
+  [K in keyof ShortRecipe]?: NonNullable<ShortRecipe[K]> extends string
+    ? number
+    : NonNullable<ShortRecipe[K]> extends string[]
+      ? number[]
+      : ShortRecipe[K];
+};
+
+export interface ItemsPayload {
+  schemaVersion: typeof PAYLOAD_SCHEMA_VERSION;
+  strings: string[];
+  crafters: number[];
+  workshops: number[];
+  items: PackedRecipe[];
+}
+
+export interface DecodedPayload {
+  schemaVersion: number;
+  /** Records in CraftingRecipe field names, not yet validated. */
+  records: unknown[];
+  /** Filter options listed in the payload; null when the version doesn't carry them. */
+  crafters: string[] | null;
+  workshops: string[] | null;
+}
+
+/** Pack recipes into the current format. Strings are numbered by first use, so output is stable. */
+export function encodePayload(recipes: CraftingRecipe[], crafters: string[], workshops: string[]): ItemsPayload {
+  const strings: string[] = [];
+  const indexOf = new Map<string, number>();
+  const intern = (s: string) => {
+    let i = indexOf.get(s);
+    if (i === undefined) {
+      i = strings.push(s) - 1;
+      indexOf.set(s, i);
+    }
+    return i;
+  };
+  const items = recipes.map((recipe) => {
+    const packed: Record<string, unknown> = {};
+    Object.entries(toShortRecipe(recipe)).forEach(([key, value]) => {
+      if (typeof value === "string") packed[key] = intern(value);
+      else if (key === SHORT_KEYS.SourceItem) packed[key] = (value as string[]).map(intern);
+      else packed[key] = value;
+    });
+    return packed as PackedRecipe;
+  });
+  return {
+    schemaVersion: PAYLOAD_SCHEMA_VERSION,
+    strings,
+    crafters: crafters.map(intern),
+    workshops: workshops.map(intern),
+    items,
+  };
+}
+
+/** Which format `data` is in; a schemaVersion that isn't a whole number is reported as NaN. */
+export function payloadVersion(data: unknown): number {
+  if (Array.isArray(data)) return 0;
+  if (data === null || typeof data !== "object") return NaN;
+  const { schemaVersion, items } = data as { schemaVersion?: unknown; items?: unknown };
+  if (schemaVersion === undefined) return Array.isArray(items) ? 1 : NaN;
+  return typeof schemaVersion === "number" && Number.isInteger(schemaVersion) ? schemaVersion : NaN;
+}
+
+/** True for anything shaped like an items.json payload rather than a raw wiki snapshot. */
+export function isItemsPayload(data: unknown): boolean {
+  return data !== null && typeof data === "object" && !Array.isArray(data) && payloadVersion(data) >= 1;
+}
+
+/**
+ * Decode any supported version. Throws on a version this build doesn't know, which for the site
+ * means the page is older than its data (e.g. a cached shell), and on malformed string indices.
+ */
+export function decodePayload(data: unknown): DecodedPayload {
+  const version = payloadVersion(data);
+  switch (version) {
+    case 0:
+      return { schemaVersion: 0, records: data as unknown[], crafters: null, workshops: null };
+    case 1: {
+      const payload = data as { crafters?: string[]; workshops?: string[]; items: unknown[] };
+      return {
+        schemaVersion: 1,
+        records: payload.items.map(fromShortRecipe),
+        crafters: payload.crafters ?? null,
+        workshops: payload.workshops ?? null,
+      };
+    }
+    case 2: {
+      const payload = data as ItemsPayload;
+      if (!Array.isArray(payload.strings) || !Array.isArray(payload.items)) {
+        throw new Error("items.json (schema version 2) is missing its string table or items");
+      }
+      const lookup = (i: unknown) => {
+        if (typeof i !== "number" || payload.strings[i] === undefined) {
+          throw new Error(`items.json refers to string ${JSON.stringify(i)}, which isn't in its string table`);
+        }
+        return payload.strings[i];
+      };
+      const records = payload.items.map((packed) => {
+        const short: Record<string, unknown> = {};
+        Object.entries(packed).forEach(([key, value]) => {
+          if (key === SHORT_KEYS.SourceQuantity) short[key] = value;
+          else if (Array.isArray(value)) short[key] = value.map(lookup);
+          else short[key] = lookup(value);
+        });
+        return fromShortRecipe(short);
+      });
+      return {
+        schemaVersion: 2,
+        records,
+        crafters: (payload.crafters ?? []).map(lookup),
+        workshops: (payload.workshops ?? []).map(lookup),
+      };
+    }
+    default:
+      throw new Error(
+        Number.isNaN(version)
+          ? "items.json is not in a recognised format"
+          : `items.json uses schema version ${version}, but this build only reads up to version ${PAYLOAD_SCHEMA_VERSION}`
+      );
+  }
+}
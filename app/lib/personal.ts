@@ -0,0 +1,73 @@
+/**
+ * Favorites, recently viewed items and notes, keyed by item name. They live in localStorage
+ * (useLocalStorage) and move between machines as a JSON file (serializePersonalData / parsePersonalData).
+ */
+
+export const RECENT_LIMIT = 20;
+export const PERSONAL_FILE_VERSION = 1;
+export const NOTE_MAX_LENGTH = 2000;
+
+export interface PersonalData {
+  favorites: string[];
+  /** Most recent first, at most RECENT_LIMIT. */
+  recent: string[];
+  notes: Record<string, string>;
+}
+
+/** Add a name to the end of the list, or remove it if present. */
+export function toggleName(list: string[], name: string): string[] {
+  return list.includes(name) ? list.filter((n) => n !== name) : [...list, name];
+}
+
+export function pushRecent(recent: string[], name: string): string[] {
+  return [name, ...recent.filter((n) => n !== name)].slice(0, RECENT_LIMIT);
+}
+
+/** Set or, for blank text, remove an item's note. */
+export function setNote(notes: Record<string, string>, name: string, text: string): Record<string, string> {
+  const next = { ...notes };
+  if (text.trim()) next[name] = text.slice(0, NOTE_MAX_LENGTH);
+  else delete next[name];
+  return next;
+}
+
+export function serializePersonalData(data: PersonalData): string {
+  return JSON.stringify({ version: PERSONAL_FILE_VERSION, exportedAt: new Date().toISOString(), ...data }, null, 2);
+}
+
+export const isStringArray = (v: unknown): v is string[] => Array.isArray(v) && v.every((s) => typeof s === "string");
+
+/** Stored notes: an object of item name to text. */
+export const isNoteMap = (v: unknown): v is Record<string, string> =>
+  v !== null && typeof v === "object" && !Array.isArray(v) && Object.values(v).every((note) => typeof note === "string");
+
+/** Read an exported file. Throws an Error with a message fit for the user when it isn't one. */
+export function parsePersonalData(text: string): PersonalData {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Not a JSON file");
+  }
+  if (data === null || typeof data !== "object" || Array.isArray(data)) throw new Error("Not a favorites and notes export");
+  const { version, favorites = [], recent = [], notes = {} } = data as Record<string, unknown>;
+  if (typeof version !== "number" || version > PERSONAL_FILE_VERSION) {
+    throw new Error(`Unsupported export version ${JSON.stringify(version)}`);
+  }
+  if (!isStringArray(favorites) || !isStringArray(recent)) throw new Error("favorites and recent must be lists of item names");
+  if (notes === null || typeof notes !== "object" || Array.isArray(notes)) throw new Error("notes must map item names to text");
+  const cleanNotes: Record<string, string> = {};
+  Object.entries(notes).forEach(([name, note]) => {
+    if (typeof note === "string" && note.trim()) cleanNotes[name] = note.slice(0, NOTE_MAX_LENGTH);
+  });
+  return { favorites: Array.from(new Set(favorites)), recent: recent.slice(0, RECENT_LIMIT), notes: cleanNotes };
+}
+
+/** Combine an import with what is already stored; imported notes win for the same item. */
+export function mergePersonalData(current: PersonalData, imported: PersonalData): PersonalData {
+  return {
+    favorites: Array.from(new Set([...current.favorites, ...imported.favorites])),
+    recent: Array.from(new Set([...current.recent, ...imported.recent])).slice(0, RECENT_LIMIT),
+    notes: { ...current.notes, ...imported.notes },
+  };
+}
@@ -0,0 +1,85 @@
+import type { CraftingRecipe } from "@/app/types/items";
+import { isStringArray } from "@/app/lib/personal";
+
+/** What the player has unlocked in their save, as stored locally. */
+export interface Progression {
+  /** Whether the list is filtered at all. */
+  enabled: boolean;
+  /** Dim locked recipes, or hide them from the list. */
+  mode: "dim" | "hide";
+  crafters: string[];
+  workshops: string[];
+}
+
+export const DEFAULT_PROGRESSION: Progression = { enabled: false, mode: "dim", crafters: [], workshops: [] };
+
+/** A stored Progression, as written by useLocalStorage. */
+export function isProgression(value: unknown): value is Progression {
+  if (value === null || typeof value !== "object") return false;
+  const p = value as Record<string, unknown>;
+  return (
+    typeof p.enabled === "boolean" &&
+    (p.mode === "dim" || p.mode === "hide") &&
+    isStringArray(p.crafters) &&
+    isStringArray(p.workshops)
+  );
+}
+
+export type LockStatus =
+  | { locked: false }
+  /** blockers: the locked crafter/workshops, or the ingredients that can't be made yet. */
+  | { locked: true; reason: "station" | "ingredient"; blockers: string[] };
+
+function lockedStations(recipe: CraftingRecipe, crafters: Set<string>, workshops: Set<string>): string[] {
+  const blockers: string[] = [];
+  if (recipe.Crafter && !crafters.has(recipe.Crafter)) blockers.push(recipe.Crafter);
+  if (recipe.Workshop && !workshops.has(recipe.Workshop)) blockers.push(recipe.Workshop);
+  if (recipe.Workshop2 && !workshops.has(recipe.Workshop2)) blockers.push(recipe.Workshop2);
+  return blockers;
+}
+
+/**
+ * Lock status of every recipe. An ingredient that has recipes is only obtainable if at least one of
+ * them is unlocked and all of its own ingredients are obtainable; items without a recipe are
+ * assumed gatherable. Solved as a least fixed point, so ingredient cycles never count as unlocked
+ * on their own.
+ */
+export function computeLocks(items: CraftingRecipe[], progression: Progression): Map<CraftingRecipe, LockStatus> {
+  const crafters = new Set(progression.crafters);
+  const workshops = new Set(progression.workshops);
+  const craftable = new Set(items.map((r) => r.CraftedItem));
+  const stationOk = new Map(items.map((r) => [r, lockedStations(r, crafters, workshops).length === 0]));
+
+  const obtainable = new Set<string>();
+  const isObtainable = (name: string) => !craftable.has(name) || obtainable.has(name);
+  let changed = true;
+  while (changed) {
+    changed = false;
+    items.forEach((r) => {
+      if (obtainable.has(r.CraftedItem) || !stationOk.get(r)) return;
+      if (r.SourceItem.every(isObtainable)) {
+        obtainable.add(r.CraftedItem);
+        changed = true;
+      }
+    });
+  }
+
+  const locks = new Map<CraftingRecipe, LockStatus>();
+  items.forEach((r) => {
+    const stations = lockedStations(r, crafters, workshops);
+    if (stations.length) {
+      locks.set(r, { locked: true, reason: "station", blockers: stations });
+      return;
+    }
+    const missing = r.SourceItem.filter((name) => !isObtainable(name));
+    locks.set(r, missing.length ? { locked: true, reason: "ingredient", blockers: missing } : { locked: false });
+  });
+  return locks;
+}
+
+export function describeLock(status: LockStatus): string | undefined {
+  if (!status.locked) return undefined;
+  return status.reason === "station"
+    ? `Locked: ${status.blockers.join(", ")}`
+    : `Needs locked ingredients: ${status.blockers.join(", ")}`;
+}
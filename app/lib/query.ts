@@ -0,0 +1,179 @@
+/**
+ * Search query syntax, e.g. `crafter:Blacksmith uses:"Iron Bar" -workshop:Forge qty>=5 sword`.
+ *
+ * - `field:value` filters; values match case-insensitively as substrings. Fields: crafter,
+ *   workshop, workshop2, uses (alias ingredient). Multi-word values go in double quotes.
+ * - Number fields compare with `:`, `=`, `>`, `>=`, `<`, `<=`: `qty` (CraftedQuantity) and the
+ *   computed metrics `cost` (raw units per unit), `materials`, `depth` and `workshops` (alias
+ *   stations). Two comparisons make a range: `depth>=3 depth<=4`.
+ * - A leading `-` negates a filter or free-text term.
+ * - Everything else is free text, fuzzy-matched by Fuse; negated free text excludes substrings.
+ */
+import type { CraftingRecipe } from "@/app/types/items";
+import { craftedQuantityOf } from "@/app/lib/bom";
+import type { MetricKey, RecipeMetrics } from "@/app/lib/metrics";
+
+export type TextField = "crafter" | "workshop" | "workshop2" | "uses";
+export type NumberField = "qty" | MetricKey;
+export type CompareOp = "=" | ">" | ">=" | "<" | "<=";
+
+export type QueryFilter =
+  | { kind: "text"; field: TextField; value: string; negate: boolean }
+  | { kind: "number"; field: NumberField; op: CompareOp; value: number; negate: boolean }
+  | { kind: "exclude"; value: string };
+
+export interface ParsedQuery {
+  /** Free text for Fuse, terms joined by single spaces. */
+  text: string;
+  filters: QueryFilter[];
+}
+
+export type ParseResult = { ok: true; query: ParsedQuery } | { ok: false; error: string };
+
+const FIELD_ALIASES: Record<string, TextField> = {
+  crafter: "crafter",
+  workshop: "workshop",
+  workshop2: "workshop2",
+  w2: "workshop2",
+  uses: "uses",
+  ingredient: "uses",
+};
+
+const NUMBER_FIELD_ALIASES: Record<string, NumberField> = {
+  qty: "qty",
+  quantity: "qty",
+  cost: "cost",
+  materials: "materials",
+  mats: "materials",
+  depth: "depth",
+  workshops: "workshops",
+  stations: "workshops",
+};
+
+interface Token {
+  raw: string;
+  /** The token opened with a quote (`"a:b"`, `-"a b"`), so it is a phrase and never a field filter. */
+  literal: boolean;
+}
+
+/** Split on whitespace, keeping double-quoted runs (also after `field:`) together. */
+function tokenize(input: string): Token[] | { error: string } {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+    const start = i;
+    let raw = "";
+    let literal = false;
+    while (i < input.length && !/\s/.test(input[i])) {
+      if (input[i] === '"') {
+        const end = input.indexOf('"', i + 1);
+        if (end === -1) return { error: `Unterminated quote at position ${i + 1}` };
+        if (i === start || (i === start + 1 && input[start] === "-")) literal = true;
+        raw += input.slice(i + 1, end);
+        i = end + 1;
+      } else {
+        raw += input[i++];
+      }
+    }
+    tokens.push({ raw, literal });
+  }
+  return tokens;
+}
+
+export function parseQuery(input: string): ParseResult {
+  const tokens = tokenize(input);
+  if (!Array.isArray(tokens)) return { ok: false, error: tokens.error };
+
+  const text: string[] = [];
+  const filters: QueryFilter[] = [];
+  for (const token of tokens) {
+    let raw = token.raw;
+    const negate = raw.startsWith("-") && raw.length > 1;
+    if (negate) raw = raw.slice(1);
+
+    const num = token.literal ? null : raw.match(/^([a-z]+)(>=|<=|:|=|>|<)(.*)$/i);
+    const numberField = num ? NUMBER_FIELD_ALIASES[num[1].toLowerCase()] : undefined;
+    if (num && numberField) {
+      const value = Number(num[3]);
+      if (!num[3] || !Number.isFinite(value)) return { ok: false, error: `"${token.raw}": ${num[1]} needs a number` };
+      const op = (num[2] === ":" ? "=" : num[2]) as CompareOp;
+      filters.push({ kind: "number", field: numberField, op, value, negate });
+      continue;
+    }
+
+    const field = token.literal ? null : raw.match(/^([a-z0-9]+):(.*)$/i);
+    if (field) {
+      const name = FIELD_ALIASES[field[1].toLowerCase()];
+      if (!name) {
+        return {
+          ok: false,
+          error: `Unknown field "${field[1]}". Use crafter, workshop, workshop2, uses, qty, cost, materials, depth or workshops.`,
+        };
+      }
+      if (!field[2].trim()) return { ok: false, error: `"${token.raw}": ${field[1]} needs a value` };
+      filters.push({ kind: "text", field: name, value: field[2].trim().toLowerCase(), negate });
+      continue;
+    }
+
+    if (!raw) continue;
+    if (negate) filters.push({ kind: "exclude", value: raw.toLowerCase() });
+    else text.push(raw);
+  }
+  return { ok: true, query: { text: text.join(" "), filters } };
+}
+
+function fieldValues(recipe: CraftingRecipe, field: TextField): string[] {
+  switch (field) {
+    case "crafter":
+      return [recipe.Crafter];
+    case "workshop":
+      return recipe.Workshop ? [recipe.Workshop] : [];
+    case "workshop2":
+      return recipe.Workshop2 ? [recipe.Workshop2] : [];
+    case "uses":
+      return recipe.SourceItem;
+  }
+}
+
+function compare(a: number, op: CompareOp, b: number): boolean {
+  switch (op) {
+    case "=":
+      return a === b;
+    case ">":
+      return a > b;
+    case ">=":
+      return a >= b;
+    case "<":
+      return a < b;
+    case "<=":
+      return a <= b;
+  }
+}
+
+function matchesFilter(recipe: CraftingRecipe, filter: QueryFilter, metrics?: RecipeMetrics): boolean {
+  switch (filter.kind) {
+    case "text": {
+      const hit = fieldValues(recipe, filter.field).some((v) => v.toLowerCase().includes(filter.value));
+      return hit !== filter.negate;
+    }
+    case "number": {
+      if (filter.field !== "qty" && !metrics) return true;
+      const actual = filter.field === "qty" ? craftedQuantityOf(recipe) : metrics![filter.field];
+      return compare(actual, filter.op, filter.value) !== filter.negate;
+    }
+    case "exclude":
+      return !recipe.CraftedItem.toLowerCase().includes(filter.value);
+  }
+}
+
+/**
+ * True when the recipe passes every filter (free text is matched separately through Fuse).
+ * Metric filters only apply when the recipe's metrics are given.
+ */
+export function matchesFilters(recipe: CraftingRecipe, filters: QueryFilter[], metrics?: RecipeMetrics): boolean {
+  return filters.every((f) => matchesFilter(recipe, f, metrics));
+}
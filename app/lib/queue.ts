@@ -0,0 +1,77 @@
+import type { CraftingRecipe } from "@/app/types/items";
+import { bomTotals, craftedQuantityOf, ingredientsOf } from "@/app/lib/bom";
+import { findVariant } from "@/app/lib/recipes";
+
+/** One planned craft: how many units of CraftedItem we want, not how many crafts. */
+export interface QueueEntry {
+  name: string;
+  qty: number;
+  /** variantKey of the recipe to craft it with; queues saved before this use the first variant. */
+  variant?: string;
+}
+
+/** A stored queue: entries with a name, a positive quantity and optionally a variant. */
+export function isQueue(value: unknown): value is QueueEntry[] {
+  return (
+    Array.isArray(value) &&
+    value.every(
+      (e) =>
+        e !== null &&
+        typeof e === "object" &&
+        typeof e.name === "string" &&
+        Number.isFinite(e.qty) &&
+        e.qty > 0 &&
+        (e.variant === undefined || typeof e.variant === "string")
+    )
+  );
+}
+
+/** Whether two entries are for the same item and variant. */
+export function sameEntry(a: QueueEntry, b: QueueEntry): boolean {
+  return a.name === b.name && a.variant === b.variant;
+}
+
+/** The recipe an entry is crafted with: its stored variant, or the first when that's gone. */
+export function entryRecipe(entry: QueueEntry, recipesByName: Map<string, CraftingRecipe[]>): CraftingRecipe | null {
+  return findVariant(recipesByName.get(entry.name), entry.variant);
+}
+
+export interface ShoppingItem {
+  name: string;
+  qty: number;
+}
+
+/**
+ * Merge the ingredients of every queued recipe into one list. With `flatten`, intermediates are
+ * expanded down to raw materials across the whole queue (see bomTotals), so an intermediate shared
+ * by several entries is rounded up once; otherwise only direct ingredients are listed.
+ * Each entry uses its own variant; intermediates use craftableByName's.
+ * Entries whose item is no longer craftable (data changed since queuing) are skipped.
+ */
+export function buildShoppingList(
+  queue: QueueEntry[],
+  recipesByName: Map<string, CraftingRecipe[]>,
+  craftableByName: Map<string, CraftingRecipe>,
+  flatten: boolean
+): ShoppingItem[] {
+  const targets = queue.map((entry) => ({ ...entry, recipe: entryRecipe(entry, recipesByName) }));
+  if (flatten) return bomTotals(targets, craftableByName).raw;
+
+  const totals = new Map<string, number>();
+  const add = (name: string, qty: number) => totals.set(name, (totals.get(name) ?? 0) + qty);
+
+  targets.forEach(({ qty, recipe }) => {
+    if (!recipe) return;
+    const crafts = Math.ceil(qty / craftedQuantityOf(recipe));
+    ingredientsOf(recipe).forEach((ing) => add(ing.name, ing.qty * crafts));
+  });
+
+  return Array.from(totals, ([name, qty]) => ({ name, qty })).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Add qty of an item to the queue, merging with an existing entry for the same item and variant. */
+export function addToQueue(queue: QueueEntry[], name: string, qty: number, variant?: string): QueueEntry[] {
+  const added = { name, qty, variant };
+  if (!queue.some((e) => sameEntry(e, added))) return [...queue, added];
+  return queue.map((e) => (sameEntry(e, added) ? { ...e, qty: e.qty + qty } : e));
+}
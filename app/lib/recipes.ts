@@ -0,0 +1,63 @@
+import type { CraftingRecipe } from "@/app/types/items";
+
+/** A recipe that consumes some ingredient, with how many of it one craft takes. */
+export interface UsedIn {
+  recipe: CraftingRecipe;
+  qty: number;
+}
+
+/** Reverse index: ingredient name → every recipe that lists it in SourceItem, sorted by CraftedItem. */
+export function buildUsedInIndex(items: CraftingRecipe[]): Map<string, UsedIn[]> {
+  const map = new Map<string, UsedIn[]>();
+  items.forEach((recipe) => {
+    recipe.SourceItem.forEach((name, i) => {
+      const list = map.get(name) ?? [];
+      list.push({ recipe, qty: recipe.SourceQuantity[i] ?? 1 });
+      map.set(name, list);
+    });
+  });
+  map.forEach((list) => list.sort((a, b) => a.recipe.CraftedItem.localeCompare(b.recipe.CraftedItem)));
+  return map;
+}
+
+/** URL segment for an item's static page: "Health Potion +" → "health-potion-plus". */
+export function itemSlug(name: string): string {
+  return name
+    .replace(/\+/g, " plus ")
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/** Every recipe per CraftedItem, in data order; items with alternate recipes have several. */
+export function buildRecipesByName(items: CraftingRecipe[]): Map<string, CraftingRecipe[]> {
+  const map = new Map<string, CraftingRecipe[]>();
+  items.forEach((r) => {
+    if (!r.CraftedItem) return;
+    const list = map.get(r.CraftedItem) ?? [];
+    list.push(r);
+    map.set(r.CraftedItem, list);
+  });
+  return map;
+}
+
+/** Crafter, workshop and second workshop of a recipe, for telling variants apart. */
+export function stationsLabel(recipe: CraftingRecipe): string {
+  return [recipe.Crafter, recipe.Workshop, recipe.Workshop2].filter(Boolean).join(" · ") || "Hand-crafted";
+}
+
+/**
+ * Which of its item's variants a recipe is, by its stations ("Blacksmith/Forge", "/Kiln"), for
+ * storing a choice of variant; unlike an index it survives variants being added or reordered.
+ */
+export function variantKey(recipe: CraftingRecipe): string {
+  return [recipe.Crafter, recipe.Workshop ?? "", recipe.Workshop2 ?? ""].join("/").replace(/\/+$/, "");
+}
+
+/** The variant stored as `key`, or the first one (craftableByName's) when it's absent or gone. */
+export function findVariant(variants: CraftingRecipe[] | undefined, key?: string): CraftingRecipe | null {
+  if (!variants?.length) return null;
+  return (key !== undefined && variants.find((r) => variantKey(r) === key)) || variants[0];
+}
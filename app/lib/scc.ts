@@ -0,0 +1,44 @@
+/**
+ * Strongly connected components (Tarjan) of the graph of `nodes` and their edges; edges to
+ * anything outside `nodes` are ignored. A component is listed after every component it has edges
+ * into, so in an item → ingredient graph ingredients come before what they are used in.
+ */
+export function stronglyConnected(nodes: Iterable<string>, edgesOf: (node: string) => Iterable<string>): string[][] {
+  const all = new Set(nodes);
+  const index = new Map<string, number>();
+  const low = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+  let next = 0;
+
+  const visit = (node: string) => {
+    index.set(node, next);
+    low.set(node, next++);
+    stack.push(node);
+    onStack.add(node);
+    for (const dep of edgesOf(node)) {
+      if (!all.has(dep)) continue;
+      if (!index.has(dep)) {
+        visit(dep);
+        low.set(node, Math.min(low.get(node)!, low.get(dep)!));
+      } else if (onStack.has(dep)) {
+        low.set(node, Math.min(low.get(node)!, index.get(dep)!));
+      }
+    }
+    if (low.get(node) !== index.get(node)) return;
+    const component: string[] = [];
+    let member: string;
+    do {
+      member = stack.pop()!;
+      onStack.delete(member);
+      component.push(member);
+    } while (member !== node);
+    components.push(component);
+  };
+
+  all.forEach((node) => {
+    if (!index.has(node)) visit(node);
+  });
+  return components;
+}
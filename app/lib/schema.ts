@@ -0,0 +1,128 @@
+/**
+ * Runtime schema for CraftingRecipe (app/types/items.ts), shared by the data pipeline
+ * (scraper, copy-data) and the app's loader. Every record is checked, not just the first.
+ */
+import type { CraftingRecipe } from "@/app/types/items";
+
+/** Short keys used in public/items.json to keep the payload small. */
+export const SHORT_KEYS = {
+  CraftedItem: "n",
+  Crafter: "c",
+  Workshop: "w",
+  Workshop2: "w2",
+  CraftedQuantity: "q",
+  SourceItem: "s",
+  SourceQuantity: "sq",
+} as const satisfies Record<keyof CraftingRecipe, string>;
+
+export type ShortRecipe = { [K in keyof CraftingRecipe as (typeof SHORT_KEYS)[K]]?: CraftingRecipe[K] };
+
+export interface ValidationIssue {
+  /** Position of the record in the input array. */
+  index: number;
+  /** CraftedItem of the record, when it has a usable one. */
+  item: string | null;
+  field: keyof CraftingRecipe | null;
+  message: string;
+}
+
+export interface ValidationReport {
+  generatedAt: string;
+  source: string;
+  recordCount: number;
+  validCount: number;
+  invalidCount: number;
+  issues: ValidationIssue[];
+}
+
+const isNonEmptyString = (v: unknown): v is string => typeof v === "string" && v.trim() !== "";
+
+/** Validate one raw record; recipe is null when any issue was found. */
+export function validateRecipe(value: unknown, index: number): { recipe: CraftingRecipe | null; issues: ValidationIssue[] } {
+  if (value === null || typeof value !== "object" || Array.isArray(value)) {
+    return { recipe: null, issues: [{ index, item: null, field: null, message: "Record is not an object" }] };
+  }
+  const r = value as Record<string, unknown>;
+  const item = isNonEmptyString(r.CraftedItem) ? r.CraftedItem : null;
+  const issues: ValidationIssue[] = [];
+  const issue = (field: keyof CraftingRecipe, message: string) => issues.push({ index, item, field, message });
+
+  if (!item) issue("CraftedItem", "CraftedItem must be a non-empty string");
+  if (r.Crafter != null && typeof r.Crafter !== "string") issue("Crafter", "Crafter must be a string");
+  if (r.Workshop != null && typeof r.Workshop !== "string") issue("Workshop", "Workshop must be a string or null");
+  if (r.Workshop2 != null && typeof r.Workshop2 !== "string") issue("Workshop2", "Workshop2 must be a string or null");
+
+  const craftedQuantity = typeof r.CraftedQuantity === "number" ? String(r.CraftedQuantity) : r.CraftedQuantity;
+  if (typeof craftedQuantity !== "string" || !/^\d+$/.test(craftedQuantity.trim()) || Number(craftedQuantity) <= 0) {
+    issue("CraftedQuantity", `CraftedQuantity must be a positive whole number, got ${JSON.stringify(r.CraftedQuantity)}`);
+  }
+
+  const sources = r.SourceItem;
+  const quantities = r.SourceQuantity;
+  if (!Array.isArray(sources)) issue("SourceItem", "SourceItem must be an array");
+  else if (!sources.every(isNonEmptyString)) issue("SourceItem", "SourceItem names must be non-empty strings");
+  if (!Array.isArray(quantities)) issue("SourceQuantity", "SourceQuantity must be an array");
+  else if (!quantities.every((q) => typeof q === "number" && Number.isFinite(q) && q > 0)) {
+    issue("SourceQuantity", `SourceQuantity must be positive numbers, got ${JSON.stringify(quantities)}`);
+  }
+  if (Array.isArray(sources) && Array.isArray(quantities) && sources.length !== quantities.length) {
+    issue("SourceQuantity", `SourceItem has ${sources.length} entries but SourceQuantity has ${quantities.length}`);
+  }
+
+  if (issues.length) return { recipe: null, issues };
+  return {
+    recipe: {
+      CraftedItem: (item as string).trim(),
+      Crafter: (r.Crafter as string | undefined) ?? "",
+      Workshop: (r.Workshop as string | null | undefined) ?? null,
+      Workshop2: (r.Workshop2 as string | null | undefined) ?? null,
+      CraftedQuantity: (craftedQuantity as string).trim(),
+      SourceItem: (sources as string[]).map((s) => s.trim()),
+      SourceQuantity: quantities as number[],
+    },
+    issues,
+  };
+}
+
+/** Validate every record, keeping the valid ones. */
+export function validateRecipes(values: unknown[]): { recipes: CraftingRecipe[]; issues: ValidationIssue[] } {
+  const recipes: CraftingRecipe[] = [];
+  const issues: ValidationIssue[] = [];
+  values.forEach((value, index) => {
+    const result = validateRecipe(value, index);
+    if (result.recipe) recipes.push(result.recipe);
+    issues.push(...result.issues);
+  });
+  return { recipes, issues };
+}
+
+export function buildValidationReport(source: string, values: unknown[]): ValidationReport {
+  const { recipes, issues } = validateRecipes(values);
+  return {
+    generatedAt: new Date().toISOString(),
+    source,
+    recordCount: values.length,
+    validCount: recipes.length,
+    invalidCount: values.length - recipes.length,
+    issues,
+  };
+}
+
+export function toShortRecipe(recipe: CraftingRecipe): ShortRecipe {
+  const out: Record<string, unknown> = {};
+  (Object.keys(SHORT_KEYS) as (keyof CraftingRecipe)[]).forEach((key) => {
+    if (recipe[key] != null && recipe[key] !== "") out[SHORT_KEYS[key]] = recipe[key];
+  });
+  return out as ShortRecipe;
+}
+
+/** Expand a short-key record back to CraftingRecipe field names, without validating it. */
+export function fromShortRecipe(short: unknown): unknown {
+  if (short === null || typeof short !== "object") return short;
+  const s = short as Record<string, unknown>;
+  const out: Record<string, unknown> = {};
+  (Object.keys(SHORT_KEYS) as (keyof CraftingRecipe)[]).forEach((key) => {
+    if (SHORT_KEYS[key] in s) out[key] = s[SHORT_KEYS[key]];
+  });
+  return out;
+}
@@ -0,0 +1,119 @@
+import Fuse from "fuse.js";
+import type { CraftingRecipe } from "@/app/types/items";
+import { matchesFilters, type ParsedQuery } from "@/app/lib/query";
+import { computeMetrics, METRIC_KEYS, type MetricKey, type RecipeMetrics } from "@/app/lib/metrics";
+import { buildRecipesByName } from "@/app/lib/recipes";
+
+export type SortKey = "CraftedItem" | "Crafter" | "Workshop" | MetricKey;
+export const SORT_KEYS: SortKey[] = ["CraftedItem", "Crafter", "Workshop", ...METRIC_KEYS];
+export type SortDir = "asc" | "desc";
+export type SearchMode = "item" | "ingredient";
+
+export interface SearchParams {
+  /** Parsed search box; null when it has a syntax error and should be ignored. */
+  query: ParsedQuery | null;
+  searchMode: SearchMode;
+  crafter: string;
+  workshop: string;
+  sortKey: SortKey;
+  sortDir: SortDir;
+}
+
+export interface SearchIndex {
+  items: CraftingRecipe[];
+  byName: Fuse<CraftingRecipe>;
+  byIngredient: Fuse<CraftingRecipe>;
+  /** Aligned with items, for the metric filters and sort keys. */
+  metrics: RecipeMetrics[];
+  /** Every item index in display order, per sort key and direction; filled in as sorts are used. */
+  orders: Map<string, number[]>;
+}
+
+const isMetricKey = (key: SortKey): key is MetricKey => (METRIC_KEYS as SortKey[]).includes(key);
+
+export function buildSearchIndex(items: CraftingRecipe[]): SearchIndex {
+  // Intermediates use each item's first recipe, like the page's craftableByName.
+  const craftableByName = new Map(Array.from(buildRecipesByName(items), ([name, list]) => [name, list[0]]));
+  return {
+    items,
+    byName: new Fuse(items, { keys: ["CraftedItem"], threshold: 0.15 }),
+    byIngredient: new Fuse(items, { keys: ["SourceItem"], threshold: 0.15 }),
+    metrics: computeMetrics(items, craftableByName),
+    orders: new Map(),
+  };
+}
+
+/** Display-order comparator; 0 for items whose relative order comes from the list being sorted. */
+function comparator(index: SearchIndex, sortKey: SortKey, sortDir: SortDir): (a: number, b: number) => number {
+  const { items, metrics } = index;
+  const mult = sortDir === "asc" ? 1 : -1;
+  if (isMetricKey(sortKey)) {
+    // Equal metrics fall back to the item name, always A–Z.
+    return (a, b) =>
+      mult * (metrics[a][sortKey] - metrics[b][sortKey]) || items[a].CraftedItem.localeCompare(items[b].CraftedItem);
+  }
+  return (a, b) => {
+    const aVal = (items[a][sortKey] ?? "") as string;
+    const bVal = (items[b][sortKey] ?? "") as string;
+    return mult * (aVal === bVal ? 0 : aVal < bVal ? -1 : 1);
+  };
+}
+
+function sortedOrder(index: SearchIndex, sortKey: SortKey, sortDir: SortDir): number[] {
+  const key = `${sortKey}:${sortDir}`;
+  let order = index.orders.get(key);
+  if (!order) {
+    order = index.items.map((_, i) => i).sort(comparator(index, sortKey, sortDir));
+    index.orders.set(key, order);
+  }
+  return order;
+}
+
+/**
+ * Matching indices into index.items, in display order, a chunk of at least `chunkSize` at a time
+ * (the last may be shorter or empty). Matches are found by walking the items in presorted order,
+ * so the first chunk is ready before the rest of the list has been looked at. Fuse still ranks a
+ * text search in one go; items the sort can't tell apart keep that relevance order.
+ */
+export function* searchChunks(index: SearchIndex, params: SearchParams, chunkSize: number): Generator<number[]> {
+  const { items, metrics } = index;
+  const { text, filters } = params.query ?? { text: "", filters: [] };
+  const fuse = params.searchMode === "ingredient" ? index.byIngredient : index.byName;
+  const rank = text ? new Map(fuse.search(text).map((r, i) => [r.refIndex, i])) : null;
+  const matches = (i: number) =>
+    (!rank || rank.has(i)) &&
+    (!filters.length || matchesFilters(items[i], filters, metrics[i])) &&
+    (params.crafter === "All" || items[i].Crafter === params.crafter) &&
+    (params.workshop === "All" || items[i].Workshop === params.workshop || items[i].Workshop2 === params.workshop);
+
+  const compare = comparator(index, params.sortKey, params.sortDir);
+  let chunk: number[] = [];
+  // Consecutive matches that compare equal; ordered by relevance before they join the chunk.
+  let ties: number[] = [];
+  const flushTies = () => {
+    if (rank) ties.sort((a, b) => rank.get(a)! - rank.get(b)!);
+    chunk.push(...ties);
+    ties = [];
+  };
+  for (const i of sortedOrder(index, params.sortKey, params.sortDir)) {
+    if (!matches(i)) continue;
+    if (ties.length && compare(ties[0], i) !== 0) {
+      flushTies();
+      if (chunk.length >= chunkSize) {
+        yield chunk;
+        chunk = [];
+      }
+    }
+    ties.push(i);
+  }
+  flushTies();
+  yield chunk;
+}
+
+/**
+ * All matching indices into index.items, in display order. The search worker streams the same
+ * results with searchChunks; this is for the main thread where workers are unavailable.
+ */
+export function runSearch(index: SearchIndex, params: SearchParams): number[] {
+  return Array.from(searchChunks(index, params, Infinity)).flat();
+}
@@ -0,0 +1,45 @@
+/// <reference lib="webworker" />
+import type { CraftingRecipe } from "@/app/types/items";
+import type { RecipeMetrics } from "@/app/lib/metrics";
+import { buildSearchIndex, searchChunks, type SearchIndex, type SearchParams } from "@/app/lib/search";
+
+export type SearchRequest =
+  | { type: "init"; id: number; items: CraftingRecipe[] }
+  | { type: "search"; id: number; params: SearchParams };
+
+/**
+ * Results arrive in chunks so the first cards render before a large result set is complete.
+ * Metrics, aligned with the items of the init with the same id, are sent once per init.
+ */
+export type SearchResponse =
+  | { type: "results"; id: number; indices: number[]; done: boolean }
+  | { type: "metrics"; id: number; metrics: RecipeMetrics[] };
+
+const CHUNK_SIZE = 300;
+
+declare const self: DedicatedWorkerGlobalScope;
+
+let index: SearchIndex | null = null;
+/** The newest search; chunks of older ones stop being produced once it arrives. */
+let latestId = 0;
+
+/** Post one chunk per task, so a newer search message is handled between chunks. */
+function stream(id: number, chunks: Iterator<number[]>) {
+  if (id !== latestId) return;
+  const next = chunks.next();
+  const response: SearchResponse = { type: "results", id, indices: next.done ? [] : next.value, done: !!next.done };
+  self.postMessage(response);
+  if (!next.done) setTimeout(() => stream(id, chunks), 0);
+}
+
+self.onmessage = (e: MessageEvent<SearchRequest>) => {
+  const msg = e.data;
+  if (msg.type === "init") {
+    index = buildSearchIndex(msg.items);
+    self.postMessage({ type: "metrics", id: msg.id, metrics: index.metrics } satisfies SearchResponse);
+    return;
+  }
+  if (!index) return;
+  latestId = msg.id;
+  stream(msg.id, searchChunks(index, msg.params, CHUNK_SIZE));
+};
@@ -0,0 +1,84 @@
+/**
+ * The shareable part of the index view, mirrored into the page's query string so a link reproduces
+ * filters (including the favorites-only toggle), sort and the open panel breadcrumb. Only
+ * location.search is touched, so the static export's path (including NEXT_PUBLIC_BASE_PATH) is
+ * preserved as-is.
+ */
+
+/** A SidePanel breadcrumb entry: the item, and the variantKey of the recipe shown for it. */
+export interface PanelItem {
+  name: string;
+  /** Absent for items without a recipe, and in links made before variants were kept. */
+  variant?: string;
+}
+
+export interface UrlState {
+  query: string;
+  searchMode: string;
+  crafter: string;
+  workshop: string;
+  sortKey: string;
+  sortDir: string;
+  /** Show only favorites; written as favorites=1. The favorites themselves stay in localStorage. */
+  favoritesOnly: boolean;
+  /** The SidePanel breadcrumb, outermost first; written as item=Name or item=Name|variant. */
+  panel: PanelItem[];
+}
+
+/** Values left out of the URL so an untouched view keeps a clean address. */
+export const DEFAULT_URL_STATE: UrlState = {
+  query: "",
+  searchMode: "item",
+  crafter: "All",
+  workshop: "All",
+  sortKey: "CraftedItem",
+  sortDir: "asc",
+  favoritesOnly: false,
+  panel: [],
+};
+
+const PARAMS: Record<Exclude<keyof UrlState, "favoritesOnly" | "panel">, string> = {
+  query: "q",
+  searchMode: "mode",
+  crafter: "crafter",
+  workshop: "workshop",
+  sortKey: "sort",
+  sortDir: "dir",
+};
+
+export function readUrlState(search: string): UrlState {
+  const params = new URLSearchParams(search);
+  const state = {
+    ...DEFAULT_URL_STATE,
+    favoritesOnly: params.get("favorites") === "1",
+    panel: params
+      .getAll("item")
+      .filter(Boolean)
+      .map((value): PanelItem => {
+        const [name, variant] = value.split("|", 2);
+        return variant ? { name, variant } : { name };
+      }),
+  };
+  (Object.keys(PARAMS) as (keyof typeof PARAMS)[]).forEach((key) => {
+    const value = params.get(PARAMS[key]);
+    if (value !== null) state[key] = value;
+  });
+  return state;
+}
+
+/** Query string for a state, "?…" or "" when everything is at its default. */
+export function writeUrlState(state: UrlState): string {
+  const params = new URLSearchParams();
+  (Object.keys(PARAMS) as (keyof typeof PARAMS)[]).forEach((key) => {
+    if (state[key] !== DEFAULT_URL_STATE[key]) params.set(PARAMS[key], state[key]);
+  });
+  if (state.favoritesOnly) params.set("favorites", "1");
+  state.panel.forEach(({ name, variant }) => params.append("item", variant ? `${name}|${variant}` : name));
+  const search = params.toString();
+  return search ? `?${search}` : "";
+}
+
+/** Whether two breadcrumbs list the same items and variants. */
+export function samePanel(a: PanelItem[], b: PanelItem[]): boolean {
+  return a.length === b.length && a.every((item, i) => item.name === b[i].name && item.variant === b[i].variant);
+}
@@ -0,0 +1,25 @@
+import { useEffect, useState } from "react";
+import type { ChangeLog } from "@/app/lib/diff";
+
+/** Loads public/changes.json. A missing file just means no history yet, not an error. */
+export function useChangeLog() {
+  const [log, setLog] = useState<ChangeLog>({ entries: [] });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const base = process.env.NEXT_PUBLIC_BASE_PATH ?? "";
+    const url = base ? `${base}/changes.json` : "/changes.json";
+    fetch(url)
+      .then((r) => {
+        if (r.status === 404) return { entries: [] };
+        if (!r.ok) throw new Error("Failed to load changes");
+        return r.json();
+      })
+      .then((data: ChangeLog) => setLog(Array.isArray(data?.entries) ? data : { entries: [] }))
+      .catch((e) => setError(e.message))
+      .finally(() => setLoading(false));
+  }, []);
+
+  return { log, loading, error };
+}
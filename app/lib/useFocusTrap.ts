@@ -0,0 +1,68 @@
+import { useEffect, useRef, type RefObject } from "react";
+
+const FOCUSABLE =
+  'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+/** Open traps, innermost last; only that one handles Tab and Escape. */
+const traps: symbol[] = [];
+
+function focusableIn(container: HTMLElement): HTMLElement[] {
+  return Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE)).filter((el) => el.getClientRects().length > 0);
+}
+
+/**
+ * Keeps keyboard focus inside `ref` while mounted: focus moves in on mount (to a `data-autofocus`
+ * element if there is one), Tab wraps around, Escape calls onEscape, and focus returns to where it
+ * was on unmount. Overlays stack, so a dialog opened over SidePanel takes the keys until it closes.
+ */
+export function useFocusTrap(ref: RefObject<HTMLElement | null>, onEscape?: () => void) {
+  const escapeRef = useRef(onEscape);
+  escapeRef.current = onEscape;
+
+  useEffect(() => {
+    const container = ref.current;
+    if (!container) return;
+    const id = Symbol("focus-trap");
+    traps.push(id);
+    const previous = document.activeElement as HTMLElement | null;
+    if (!container.contains(document.activeElement)) {
+      (container.querySelector<HTMLElement>("[data-autofocus]") ?? focusableIn(container)[0] ?? container).focus();
+    }
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (traps[traps.length - 1] !== id) return;
+      if (e.key === "Escape" && escapeRef.current) {
+        e.preventDefault();
+        escapeRef.current();
+        return;
+      }
+      if (e.key !== "Tab") return;
+      const focusable = focusableIn(container);
+      if (focusable.length === 0) {
+        e.preventDefault();
+        container.focus();
+        return;
+      }
+      const first = focusable[0];
+      const last = focusable[focusable.length - 1];
+      const active = document.activeElement;
+      // Focus can fall out to <body> when the focused element unmounts; bring it back in.
+      if (!container.contains(active)) {
+        e.preventDefault();
+        (e.shiftKey ? last : first).focus();
+      } else if (e.shiftKey && (active === first || active === container)) {
+        e.preventDefault();
+        last.focus();
+      } else if (!e.shiftKey && active === last) {
+        e.preventDefault();
+        first.focus();
+      }
+    };
+    document.addEventListener("keydown", onKeyDown);
+    return () => {
+      document.removeEventListener("keydown", onKeyDown);
+      traps.splice(traps.indexOf(id), 1);
+      if (previous?.isConnected) previous.focus();
+    };
+  }, [ref]);
+}
@@ -0,0 +1,25 @@
+import { useEffect, useState } from "react";
+import type { IntegrityReport } from "@/app/lib/integrity";
+
+/** Loads public/integrity.json, written by scripts/check-integrity.ts. Null until one exists. */
+export function useIntegrityReport() {
+  const [report, setReport] = useState<IntegrityReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const base = process.env.NEXT_PUBLIC_BASE_PATH ?? "";
+    const url = base ? `${base}/integrity.json` : "/integrity.json";
+    fetch(url)
+      .then((r) => {
+        if (r.status === 404) return null;
+        if (!r.ok) throw new Error("Failed to load integrity report");
+        return r.json();
+      })
+      .then((data: IntegrityReport | null) => setReport(data))
+      .catch((e) => setError(e.message))
+      .finally(() => setLoading(false));
+  }, []);
+
+  return { report, loading, error };
+}
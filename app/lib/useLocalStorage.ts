@@ -0,0 +1,46 @@
+import { useEffect, useState, type Dispatch, type SetStateAction } from "react";
+
+const PREFIX = "enshrouded-crafting-index:";
+
+export const isBoolean = (v: unknown): v is boolean => typeof v === "boolean";
+export const isString = (v: unknown): v is string => typeof v === "string";
+
+/**
+ * useState mirrored to localStorage under a namespaced key. The stored value is read after mount,
+ * so the static export renders `initial` first and never mismatches during hydration. A stored
+ * value that fails `isValid` (edited by hand, or written by an older version) is ignored.
+ */
+export function useLocalStorage<T>(
+  key: string,
+  initial: T,
+  isValid: (value: unknown) => value is T
+): [T, Dispatch<SetStateAction<T>>] {
+  const storageKey = PREFIX + key;
+  const [value, setValue] = useState<T>(initial);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    try {
+      const raw = window.localStorage.getItem(storageKey);
+      if (raw !== null) {
+        const stored: unknown = JSON.parse(raw);
+        if (isValid(stored)) setValue(stored);
+      }
+    } catch {
+      // Corrupt or inaccessible storage (private mode): keep the initial value.
+    }
+    setLoaded(true);
+    // isValid is fixed per key, so it isn't a dependency: reading again would overwrite newer state.
+  }, [storageKey]);
+
+  useEffect(() => {
+    if (!loaded) return;
+    try {
+      window.localStorage.setItem(storageKey, JSON.stringify(value));
+    } catch {
+      // Quota exceeded or storage disabled; the in-memory state still works for this session.
+    }
+  }, [storageKey, value, loaded]);
+
+  return [value, setValue];
+}
@@ -0,0 +1,82 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { CraftingRecipe } from "@/app/types/items";
+import type { RecipeMetrics } from "@/app/lib/metrics";
+import { buildSearchIndex, runSearch, type SearchParams } from "@/app/lib/search";
+import type { SearchRequest, SearchResponse } from "@/app/lib/search.worker";
+
+/**
+ * Matching items for the current search, computed in a Web Worker so typing never waits on Fuse
+ * or the sort. Falls back to the main thread where workers can't be created. `metrics` is aligned
+ * with items, from the same worker, and null until it has been computed for the current items.
+ */
+export function useRecipeSearch(items: CraftingRecipe[], params: SearchParams) {
+  const workerRef = useRef<Worker | null>(null);
+  const requestId = useRef(0);
+  const initId = useRef(0);
+  /** Items per pending init, so metrics are matched to the list they were computed for. */
+  const initItems = useRef(new Map<number, CraftingRecipe[]>());
+  const [workerMetrics, setWorkerMetrics] = useState<{ items: CraftingRecipe[]; metrics: RecipeMetrics[] } | null>(null);
+  const [workerFailed, setWorkerFailed] = useState(false);
+  const [results, setResults] = useState<{ id: number; indices: number[]; done: boolean }>({
+    id: 0,
+    indices: [],
+    done: false,
+  });
+
+  useEffect(() => {
+    if (typeof Worker === "undefined") {
+      setWorkerFailed(true);
+      return;
+    }
+    let worker: Worker;
+    try {
+      worker = new Worker(new URL("./search.worker.ts", import.meta.url));
+    } catch {
+      setWorkerFailed(true);
+      return;
+    }
+    worker.onmessage = (e: MessageEvent<SearchResponse>) => {
+      if (e.data.type === "metrics") {
+        const { id, metrics } = e.data;
+        const forItems = initItems.current.get(id);
+        initItems.current.delete(id);
+        if (forItems && id === initId.current) setWorkerMetrics({ items: forItems, metrics });
+        return;
+      }
+      const { id, indices, done } = e.data;
+      // Drop chunks of superseded searches; the first chunk of a new one replaces the list.
+      if (id !== requestId.current) return;
+      setResults((prev) => (prev.id === id ? { id, indices: [...prev.indices, ...indices], done } : { id, indices, done }));
+    };
+    worker.onerror = () => setWorkerFailed(true);
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!workerRef.current) return;
+    const id = ++initId.current;
+    initItems.current.set(id, items);
+    workerRef.current.postMessage({ type: "init", id, items } satisfies SearchRequest);
+  }, [items]);
+
+  useEffect(() => {
+    if (!workerRef.current) return;
+    const id = ++requestId.current;
+    workerRef.current.postMessage({ type: "search", id, params } satisfies SearchRequest);
+  }, [items, params]);
+
+  const fallbackIndex = useMemo(() => (workerFailed ? buildSearchIndex(items) : null), [workerFailed, items]);
+  const fallback = useMemo(
+    () => (fallbackIndex ? runSearch(fallbackIndex, params) : null),
+    [fallbackIndex, params]
+  );
+
+  const indices = fallback ?? results.indices;
+  const filtered = useMemo(() => indices.map((i) => items[i]).filter(Boolean), [indices, items]);
+  const metrics = fallbackIndex?.metrics ?? (workerMetrics?.items === items ? workerMetrics.metrics : null);
+  return { filtered, metrics, pending: !fallback && !results.done };
+}
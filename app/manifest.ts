@@ -0,0 +1,20 @@
+import type { MetadataRoute } from "next";
+
+export const dynamic = "force-static";
+
+const base = process.env.NEXT_PUBLIC_BASE_PATH ?? "";
+
+/** Web app manifest; every URL carries the base path so the app installs within it on GitHub Pages. */
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "Enshrouded Crafting Index",
+    short_name: "Crafting Index",
+    description: "Search and browse crafting recipes from the Enshrouded wiki.",
+    start_url: `${base}/`,
+    scope: `${base}/`,
+    display: "standalone",
+    background_color: "#0f0f12",
+    theme_color: "#0f0f12",
+    icons: [{ src: `${base}/icon.svg`, sizes: "any", type: "image/svg+xml", purpose: "any" }],
+  };
+}
@@ -1,87 +1,83 @@
 "use client";
 
-import { useEffect, useMemo, useState, useCallback, startTransition } from "react";
-import Fuse from "fuse.js";
+import { useEffect, useMemo, useRef, useState, useCallback, startTransition, type KeyboardEvent, type ReactNode } from "react";
+import Link from "next/link";
 import type { CraftingRecipe } from "@/app/types/items";
+import DependencyGraph from "@/app/components/DependencyGraph";
+import VirtualGrid from "@/app/components/VirtualGrid";
+import CompareView from "@/app/components/CompareView";
+import CommandPalette, { type PaletteCommand } from "@/app/components/CommandPalette";
+import { bomTotals, cheapestRecipes, craftedQuantityOf, expandBom, type BomNode } from "@/app/lib/bom";
+import { buildRecipesByName, buildUsedInIndex, findVariant, itemSlug, stationsLabel, variantKey, type UsedIn } from "@/app/lib/recipes";
+import { addToQueue, buildShoppingList, entryRecipe, isQueue, sameEntry, type QueueEntry } from "@/app/lib/queue";
+import { craftability, parseInventory } from "@/app/lib/inventory";
+import { parseQuery } from "@/app/lib/query";
+import { SORT_KEYS, type SearchMode, type SearchParams, type SortDir, type SortKey } from "@/app/lib/search";
+import { useRecipeSearch } from "@/app/lib/useRecipeSearch";
+import { formatCost, type RecipeMetrics } from "@/app/lib/metrics";
+import { MAX_COMPARE, toggleCompared } from "@/app/lib/compare";
+import {
+  isNoteMap,
+  isStringArray,
+  mergePersonalData,
+  NOTE_MAX_LENGTH,
+  parsePersonalData,
+  pushRecent,
+  serializePersonalData,
+  setNote,
+  toggleName,
+  type PersonalData,
+} from "@/app/lib/personal";
+import { readUrlState, samePanel, writeUrlState, type PanelItem, type UrlState } from "@/app/lib/urlState";
+import { validateRecipes } from "@/app/lib/schema";
+import { decodePayload, payloadVersion, PAYLOAD_SCHEMA_VERSION } from "@/app/lib/payload";
+import { recentChanges } from "@/app/lib/diff";
+import { useChangeLog } from "@/app/lib/useChangeLog";
+import { loadObtainingCache, parseObtainingHtml, wikiPageUrl, type ObtainingNode } from "@/app/lib/obtaining";
+import { fetchObtainingSectionCached } from "@/app/lib/obtainingStore";
+import { computeLocks, describeLock, DEFAULT_PROGRESSION, isProgression, type Progression } from "@/app/lib/progression";
+import { isBoolean, isString, useLocalStorage } from "@/app/lib/useLocalStorage";
+import { useFocusTrap } from "@/app/lib/useFocusTrap";
+import {
+  downloadText,
+  EXPORT_FORMATS,
+  exportFileName,
+  isExportFormat,
+  exportRecipe,
+  exportRecipeList,
+  planRecipe,
+  type ExportFormat,
+  type PlanScope,
+} from "@/app/lib/export";
 
-type SortKey = "CraftedItem" | "Crafter" | "Workshop";
-type SortDir = "asc" | "desc";
+/** One breadcrumb in SidePanel. recipe is null for ingredients that are never crafted (raw materials, drops). */
+type PanelEntry = { name: string; recipe: CraftingRecipe | null };
 
-const WIKI_API = "https://enshrouded.wiki.gg/api.php";
+/** Recipes added or changed within this many days get a badge on their card. */
+const RECENT_CHANGE_DAYS = 14;
 
-type ObtainingState = { text: string } | "loading" | { error: string } | { noSection: true };
+/** Palette groups listed only once the user types; there is one command per item. */
+const PALETTE_TYPED_GROUPS = ["Item"];
 
-/** True if element is a heading (H1–H6). */
-function isHeading(el: Element): boolean {
-  return /^H[1-6]$/.test(el.tagName);
-}
-
-/** Strip to only the Obtaining intro: find Obtaining heading, take content until next heading (any level), plain text. */
-function stripObtainingToPlainText(html: string): string {
-  if (typeof document === "undefined") return html;
-  const doc = new DOMParser().parseFromString(html, "text/html");
-  const root = doc.body.querySelector(".mw-parser-output") ?? doc.body;
-  const obtainingHeadline =
-    root.querySelector("#Obtaining") ?? root.querySelector('span.mw-headline[id="Obtaining"]');
-  if (!obtainingHeadline) {
-    const firstHeading = root.querySelector("h1, h2, h3, h4, h5, h6");
-    if (firstHeading) {
-      const parts: string[] = [];
-      let el: Element | null = firstHeading.nextElementSibling;
-      while (el && !isHeading(el)) {
-        const text = (el as HTMLElement).innerText?.trim();
-        if (text) parts.push(text);
-        el = el.nextElementSibling;
-      }
-      return parts.join("\n\n").replace(/\n{2,}/g, "\n\n").trim();
-    }
-    return "";
-  }
-  const h2 = obtainingHeadline.closest("h2");
-  if (!h2) return "";
-  const parts: string[] = [];
-  let el: Element | null = h2.nextElementSibling;
-  while (el && !isHeading(el)) {
-    const text = (el as HTMLElement).innerText?.trim();
-    if (text) parts.push(text);
-    el = el.nextElementSibling;
-  }
-  return parts.join("\n\n").replace(/\n{2,}/g, "\n\n").trim();
-}
+const SORT_LABELS: Record<SortKey, string> = {
+  CraftedItem: "Item",
+  Crafter: "Crafter",
+  Workshop: "Workshop",
+  cost: "Cost",
+  materials: "Materials",
+  depth: "Depth",
+  workshops: "Workshops",
+};
 
-/** Fetch "Obtaining" section if it exists. Returns null when the page has no Obtaining section (e.g. craft-only). */
-async function fetchObtainingSection(itemName: string): Promise<string | null> {
-  const pageName = itemName.replace(/\s+/g, "_");
-  const sectionsUrl = `${WIKI_API}?${new URLSearchParams({ action: "parse", page: pageName, prop: "sections", format: "json", origin: "*" })}`;
-  const sectionsRes = await fetch(sectionsUrl);
-  if (!sectionsRes.ok) throw new Error(`Sections: ${sectionsRes.status}`);
-  const sectionsData = await sectionsRes.json();
-  if (sectionsData.error) throw new Error(sectionsData.error.info || sectionsData.error.code);
-  const sections: { line?: string; index?: string }[] = sectionsData.parse?.sections ?? [];
-  const obtaining = sections.find((s) => (s.line ?? "").toLowerCase() === "obtaining");
-  if (!obtaining) return null;
-  const sectionIndex = obtaining.index ?? "0";
-  const textUrl = `${WIKI_API}?${new URLSearchParams({ action: "parse", page: pageName, prop: "text", section: sectionIndex, format: "json", origin: "*" })}`;
-  const textRes = await fetch(textUrl);
-  if (!textRes.ok) throw new Error(`Text: ${textRes.status}`);
-  const textData = await textRes.json();
-  if (textData.error) throw new Error(textData.error.info || textData.error.code);
-  const html = textData.parse?.text?.["*"];
-  if (typeof html !== "string") throw new Error("No content");
-  return html;
-}
+type ObtainingState = { nodes: ObtainingNode[] } | "loading" | { error: string } | { noSection: true };
 
-/** Expands short-key payload from copy-data.js into CraftingRecipe shape. */
-function expandItem(short: Record<string, unknown>): CraftingRecipe {
-  return {
-    CraftedItem: (short.n as string) ?? "",
-    Crafter: (short.c as string) ?? "",
-    Workshop: (short.w as string | null) ?? null,
-    Workshop2: (short.w2 as string | null) ?? null,
-    CraftedQuantity: (short.q as string) ?? "",
-    SourceItem: (short.s as string[]) ?? [],
-    SourceQuantity: (short.sq as number[]) ?? [],
-  };
+/** Validates records against the shared schema, dropping the ones that fail (logged in development). */
+function validItems(records: unknown[]): CraftingRecipe[] {
+  const { recipes, issues } = validateRecipes(records);
+  if (issues.length && process.env.NODE_ENV === "development") {
+    console.warn(`[items] skipped ${records.length - recipes.length} invalid records`, issues);
+  }
+  return recipes;
 }
 
 function useItems() {
@@ -100,22 +96,14 @@ function useItems() {
         return r.json();
       })
       .then((data: unknown) => {
-        if (Array.isArray(data)) {
-          setItems(data as CraftingRecipe[]);
-          setCrafters(null);
-          setWorkshops(null);
-          return;
-        }
-        const payload = data as { crafters?: string[]; workshops?: string[]; items?: Record<string, unknown>[] };
-        if (payload?.items) {
-          setItems(payload.items.map(expandItem));
-          setCrafters(payload.crafters ?? null);
-          setWorkshops(payload.workshops ?? null);
-        } else {
-          setItems([]);
-          setCrafters(null);
-          setWorkshops(null);
+        // Data newer than this page (e.g. a shell cached by the service worker) needs a reload, not a guess.
+        if (payloadVersion(data) > PAYLOAD_SCHEMA_VERSION) {
+          throw new Error("The recipe data is newer than this page. Reload to get the latest version of the site.");
         }
+        const payload = decodePayload(data);
+        setItems(validItems(payload.records));
+        setCrafters(payload.crafters);
+        setWorkshops(payload.workshops);
       })
       .catch((e) => setError(e.message))
       .finally(() => setLoading(false));
@@ -180,12 +168,41 @@ function RecipeCard({
   recipe,
   onCardClick,
   onIngredientClick,
+  onAddToQueue,
   craftableNames,
+  changeBadge,
+  lockedReason,
+  variantCount,
+  metrics,
+  compared,
+  compareFull,
+  onToggleCompare,
+  favorite,
+  onToggleFavorite,
+  note,
+  tabIndex,
 }: {
   recipe: CraftingRecipe;
   onCardClick?: (recipe: CraftingRecipe) => void;
   onIngredientClick?: (name: string, parentRecipe: CraftingRecipe) => void;
+  onAddToQueue?: (recipe: CraftingRecipe) => void;
   craftableNames?: Set<string>;
+  changeBadge?: "new" | "changed";
+  /** Set when progression marks the recipe as not craftable yet; the card is dimmed. */
+  lockedReason?: string;
+  /** Number of recipes for this item, including this one. */
+  variantCount?: number;
+  metrics?: RecipeMetrics;
+  /** In the comparison list; compareFull disables adding while MAX_COMPARE are picked. */
+  compared?: boolean;
+  compareFull?: boolean;
+  onToggleCompare?: (recipe: CraftingRecipe) => void;
+  favorite?: boolean;
+  onToggleFavorite?: (name: string) => void;
+  /** The user's note on this item, marked on the card and shown on hover. */
+  note?: string;
+  /** Roving tabindex from VirtualGrid: -1 takes the card and its buttons out of the Tab order. */
+  tabIndex?: number;
 }) {
   const ingredients = recipe.SourceItem.map((name, i) => ({
     name,
@@ -197,8 +214,64 @@ function RecipeCard({
       <div className="mb-2 flex flex-wrap items-baseline gap-2">
         <h2 className="text-lg font-semibold text-[var(--text)]">{recipe.CraftedItem}</h2>
         <span className="text-sm text-[var(--muted)]">×{recipe.CraftedQuantity}</span>
+        {onToggleFavorite ? (
+          <button
+            type="button"
+            onClick={(e) => { e.stopPropagation(); onToggleFavorite(recipe.CraftedItem); }}
+            tabIndex={tabIndex}
+            aria-pressed={Boolean(favorite)}
+            aria-label={`${favorite ? "Unstar" : "Star"} ${recipe.CraftedItem}`}
+            className={"text-sm " + (favorite ? "text-[var(--accent)]" : "text-[var(--muted)] hover:text-[var(--text)]")}
+          >
+            {favorite ? "★" : "☆"}
+          </button>
+        ) : favorite ? (
+          <span className="text-sm text-[var(--accent)]" aria-label="Favorite">★</span>
+        ) : null}
+        {note && (
+          <span className="text-xs text-[var(--muted)]" title={note}>
+            ✎ Note
+          </span>
+        )}
+        {changeBadge && (
+          <span
+            className="rounded bg-[var(--accent-dim)]/30 px-1.5 text-xs text-[var(--accent)]"
+            title={`${changeBadge === "new" ? "Added" : "Changed"} in the last ${RECENT_CHANGE_DAYS} days`}
+          >
+            {changeBadge === "new" ? "New" : "Changed"}
+          </span>
+        )}
+        {onAddToQueue && (
+          <button
+            type="button"
+            onClick={(e) => { e.stopPropagation(); onAddToQueue(recipe); }}
+            tabIndex={tabIndex}
+            className="ml-auto rounded px-1.5 text-xs text-[var(--muted)] hover:bg-[var(--border)] hover:text-[var(--text)]"
+            aria-label={`Add ${recipe.CraftedItem} to crafting queue`}
+          >
+            + Queue
+          </button>
+        )}
+        {onToggleCompare && (
+          <button
+            type="button"
+            onClick={(e) => { e.stopPropagation(); onToggleCompare(recipe); }}
+            tabIndex={tabIndex}
+            disabled={!compared && compareFull}
+            aria-pressed={Boolean(compared)}
+            title={!compared && compareFull ? `Compare up to ${MAX_COMPARE} recipes` : undefined}
+            className={
+              (onAddToQueue ? "" : "ml-auto ") +
+              "rounded px-1.5 text-xs hover:bg-[var(--border)] disabled:opacity-40 disabled:hover:bg-transparent " +
+              (compared ? "text-[var(--accent)]" : "text-[var(--muted)] hover:text-[var(--text)]")
+            }
+            aria-label={`${compared ? "Remove" : "Add"} ${recipe.CraftedItem} ${compared ? "from" : "to"} comparison`}
+          >
+            {compared ? "✓ Compare" : "+ Compare"}
+          </button>
+        )}
         {onCardClick && (
-          <span className="ml-auto text-[var(--muted)] opacity-70" aria-hidden>
+          <span className={(onAddToQueue || onToggleCompare ? "" : "ml-auto ") + "text-[var(--muted)] opacity-70"} aria-hidden>
             <InfoIcon className="h-4 w-4" />
           </span>
         )}
@@ -216,18 +289,37 @@ function RecipeCard({
             <span className="text-[var(--text)]">{recipe.Workshop}</span>
           </span>
         ) : null}
+        {recipe.Workshop2 ? (
+          <span>
+            <span className="text-[var(--muted)]">Workshop 2: </span>
+            <span className="text-[var(--text)]">{recipe.Workshop2}</span>
+          </span>
+        ) : null}
+        {variantCount && variantCount > 1 ? (
+          <span className="text-[var(--muted)]">{variantCount} recipes</span>
+        ) : null}
       </div>
+      {metrics && metrics.depth > 0 && (
+        <p
+          className="mb-3 text-xs text-[var(--muted)]"
+          title="Raw materials per unit · distinct raw materials · longest crafting chain · workshops involved"
+        >
+          ≈{formatCost(metrics.cost)} raw/unit · {metrics.materials} {metrics.materials === 1 ? "material" : "materials"} · depth{" "}
+          {metrics.depth} · {metrics.workshops} {metrics.workshops === 1 ? "workshop" : "workshops"}
+        </p>
+      )}
       <p className="mb-1.5 text-xs font-medium uppercase tracking-wide text-[var(--muted)]">Ingredients</p>
       <ul className="max-h-32 space-y-1 overflow-y-auto text-sm text-[var(--muted)]">
         {ingredients.map((ing, i) => {
-          const isCraftable = craftableNames?.has(ing.name) && onIngredientClick;
+          const isCraftable = craftableNames?.has(ing.name);
           return (
             <li key={i}>
-              {isCraftable ? (
+              {onIngredientClick ? (
                 <button
                   type="button"
                   onClick={(e) => { e.stopPropagation(); onIngredientClick(ing.name, recipe); }}
-                  className="text-left text-[var(--accent)] hover:underline"
+                  tabIndex={tabIndex}
+                  className={"text-left hover:underline " + (isCraftable ? "text-[var(--accent)]" : "hover:text-[var(--text)]")}
                 >
                   {ing.name} ×{ing.qty}
                 </button>
@@ -246,7 +338,7 @@ function RecipeCard({
     return (
       <article
         role="button"
-        tabIndex={0}
+        tabIndex={tabIndex ?? 0}
         onClick={openPanel}
         onPointerDown={(e) => {
           if (e.pointerType === "touch") {
@@ -255,7 +347,8 @@ function RecipeCard({
           }
         }}
         onKeyDown={(e) => { if (e.key === "Enter" || e.key === " ") { e.preventDefault(); openPanel(); } }}
-        className="cursor-pointer rounded-xl border border-[var(--border)] bg-[var(--surface)] p-4 text-left shadow-sm transition hover:border-[var(--accent-dim)] hover:bg-[var(--surface)]/95 focus:outline-none focus:ring-2 focus:ring-[var(--accent)]"
+        title={lockedReason}
+        className={(lockedReason ? "opacity-40 " : "") + "cursor-pointer rounded-xl border border-[var(--border)] bg-[var(--surface)] p-4 text-left shadow-sm transition hover:border-[var(--accent-dim)] hover:bg-[var(--surface)]/95 focus:outline-none focus:ring-2 focus:ring-[var(--accent)]"}
       >
         {content}
       </article>
@@ -269,13 +362,85 @@ function RecipeCard({
   );
 }
 
+/**
+ * Renders sanitized wiki content as React elements (never as HTML). Links to craftable items open
+ * them in the panel; any other wiki page opens on the wiki.
+ */
+function ObtainingContent({
+  nodes,
+  craftableByName,
+  onOpenRecipe,
+}: {
+  nodes: ObtainingNode[];
+  craftableByName: Map<string, CraftingRecipe>;
+  onOpenRecipe: (recipe: CraftingRecipe) => void;
+}) {
+  const render = (node: ObtainingNode, key: number): ReactNode => {
+    if (typeof node === "string") return node;
+    const children = node.children.map(render);
+    switch (node.tag) {
+      case "a": {
+        const recipe = craftableByName.get(node.page!);
+        return recipe ? (
+          <button key={key} type="button" onClick={() => onOpenRecipe(recipe)} className="text-[var(--accent)] hover:underline">
+            {children}
+          </button>
+        ) : (
+          <a
+            key={key}
+            href={wikiPageUrl(node.page!)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-[var(--text)] underline decoration-[var(--border)] hover:decoration-[var(--text)]"
+          >
+            {children}
+          </a>
+        );
+      }
+      case "br":
+        return <br key={key} />;
+      case "p":
+        return <p key={key} className="mb-2 last:mb-0">{children}</p>;
+      case "h4":
+        return <h4 key={key} className="mb-1 mt-2 font-semibold">{children}</h4>;
+      case "ul":
+        return <ul key={key} className="mb-2 list-disc pl-5">{children}</ul>;
+      case "ol":
+        return <ol key={key} className="mb-2 list-decimal pl-5">{children}</ol>;
+      case "table":
+        return (
+          <table key={key} className="mb-2 w-full border-collapse text-xs">
+            <tbody>{children}</tbody>
+          </table>
+        );
+      case "th":
+        return <th key={key} className="border border-[var(--border)] px-1.5 py-1 text-left font-medium">{children}</th>;
+      case "td":
+        return <td key={key} className="border border-[var(--border)] px-1.5 py-1">{children}</td>;
+      case "dt":
+        return <dt key={key} className="font-medium">{children}</dt>;
+      case "dd":
+        return <dd key={key} className="mb-1 pl-4">{children}</dd>;
+      default: {
+        const Tag = node.tag;
+        return <Tag key={key}>{children}</Tag>;
+      }
+    }
+  };
+  return <>{nodes.map(render)}</>;
+}
+
 function ObtainingBlock({
   itemName,
   state,
+  craftableByName,
+  onOpenRecipe,
   onRetry,
 }: {
   itemName: string;
   state: ObtainingState | undefined;
+  craftableByName: Map<string, CraftingRecipe>;
+  onOpenRecipe: (recipe: CraftingRecipe) => void;
   onLoad: (itemName: string) => void;
   onRetry: (itemName: string) => void;
 }) {
@@ -293,12 +458,12 @@ function ObtainingBlock({
       </div>
     );
   }
-  if (typeof state === "object" && state && "text" in state) {
+  if (typeof state === "object" && state && "nodes" in state) {
     return (
       <div className="rounded-lg border border-[var(--border)] bg-[var(--surface)] p-3">
         <p className="mb-2 text-xs font-medium uppercase tracking-wide text-[var(--muted)]">Obtaining</p>
-        <div className="max-h-40 overflow-y-auto whitespace-pre-line text-sm text-[var(--text)]">
-          {state.text}
+        <div className="max-h-64 overflow-y-auto whitespace-pre-line text-sm text-[var(--text)]">
+          <ObtainingContent nodes={state.nodes} craftableByName={craftableByName} onOpenRecipe={onOpenRecipe} />
         </div>
       </div>
     );
@@ -306,42 +471,804 @@ function ObtainingBlock({
   return null;
 }
 
+function BomTreeNode({
+  node,
+  onIngredientClick,
+}: {
+  node: BomNode;
+  onIngredientClick: (name: string) => void;
+}) {
+  const surplus = node.produced - node.needed;
+  return (
+    <li>
+      <div className="flex flex-wrap items-baseline gap-x-2">
+        <button
+          type="button"
+          onClick={() => onIngredientClick(node.name)}
+          className={"text-left hover:underline " + (node.recipe ? "text-[var(--accent)]" : "text-[var(--text)]")}
+        >
+          {node.name} ×{node.needed}
+        </button>
+        {node.crafts > 0 && (
+          <span className="text-xs text-[var(--muted)]">
+            {node.crafts} {node.crafts === 1 ? "craft" : "crafts"}
+            {surplus > 0 ? ` (+${surplus} spare)` : ""}
+          </span>
+        )}
+        {node.cycle && <span className="text-xs text-red-400">cycle</span>}
+      </div>
+      {node.children.length > 0 && (
+        <ul className="ml-3 space-y-1 border-l border-[var(--border)] pl-3">
+          {node.children.map((child, i) => (
+            <BomTreeNode key={i} node={child} onIngredientClick={onIngredientClick} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+const EXPORT_LABELS: Record<ExportFormat, string> = { csv: "CSV", json: "JSON", markdown: "Markdown" };
+
+/** Format picker plus copy and download; the text is built on demand, entirely in the browser. */
+function ExportControls({
+  fileBase,
+  getText,
+  label = "Export",
+}: {
+  fileBase: string;
+  getText: (format: ExportFormat) => string;
+  label?: string;
+}) {
+  const [format, setFormat] = useLocalStorage<ExportFormat>("export-format", "csv", isExportFormat);
+  const [copied, setCopied] = useState(false);
+
+  const copy = () => {
+    navigator.clipboard
+      ?.writeText(getText(format))
+      .then(() => {
+        setCopied(true);
+        setTimeout(() => setCopied(false), 1500);
+      })
+      .catch(() => {});
+  };
+
+  return (
+    <div className="flex items-center gap-1.5 text-xs">
+      <select
+        value={format}
+        onChange={(e) => setFormat(e.target.value as ExportFormat)}
+        className="rounded border border-[var(--border)] bg-[var(--bg)] px-1.5 py-1 text-[var(--text)] focus:border-[var(--accent)] focus:outline-none focus:ring-1 focus:ring-[var(--accent)]"
+        aria-label={`${label} format`}
+      >
+        {EXPORT_FORMATS.map((f) => (
+          <option key={f} value={f}>
+            {EXPORT_LABELS[f]}
+          </option>
+        ))}
+      </select>
+      <button type="button" onClick={copy} className="rounded px-2 py-1 text-[var(--accent)] hover:bg-[var(--border)]">
+        {copied ? "Copied" : "Copy"}
+      </button>
+      <button
+        type="button"
+        onClick={() => downloadText(getText(format), exportFileName(fileBase, format), format)}
+        className="rounded px-2 py-1 text-[var(--accent)] hover:bg-[var(--border)]"
+      >
+        Download
+      </button>
+    </div>
+  );
+}
+
+/** Target amount input plus the fully expanded ingredient tree and raw-material totals. */
+function BomBlock({
+  recipe,
+  craftableByName,
+  cheapestByName,
+  onIngredientClick,
+  onAddToQueue,
+}: {
+  recipe: CraftingRecipe;
+  craftableByName: Map<string, CraftingRecipe>;
+  /** Cheapest variant per item, used for intermediates when "Cheapest variants" is on. */
+  cheapestByName: Map<string, CraftingRecipe>;
+  onIngredientClick: (name: string) => void;
+  onAddToQueue: (recipe: CraftingRecipe, qty: number) => void;
+}) {
+  const [amount, setAmount] = useState(1);
+  const [cheapest, setCheapest] = useState(false);
+  const recipes = cheapest ? cheapestByName : craftableByName;
+  const tree = useMemo(
+    () => expandBom(recipe.CraftedItem, amount, recipes, undefined, recipe),
+    [recipe, amount, recipes]
+  );
+  // Totals round each intermediate once over the whole tree, so they can be lower than its branches add up to.
+  const totals = useMemo(
+    () => bomTotals([{ name: recipe.CraftedItem, qty: amount, recipe }], recipes).raw,
+    [recipe, amount, recipes]
+  );
+  const [exportScope, setExportScope] = useState<PlanScope>("direct");
+
+  return (
+    <div className="rounded-lg border border-[var(--border)] bg-[var(--surface)] p-3 text-sm">
+      <div className="mb-3 flex items-center gap-2">
+        <p className="text-xs font-medium uppercase tracking-wide text-[var(--muted)]">Bill of materials</p>
+        <label className="ml-auto flex items-center gap-2 text-[var(--muted)]">
+          <span>Amount</span>
+          <input
+            type="number"
+            min={1}
+            value={amount}
+            onChange={(e) => setAmount(Math.max(1, Math.floor(Number(e.target.value)) || 1))}
+            className="w-20 rounded border border-[var(--border)] bg-[var(--bg)] px-2 py-1 text-[var(--text)] focus:border-[var(--accent)] focus:outline-none focus:ring-1 focus:ring-[var(--accent)]"
+            aria-label="Target amount"
+          />
+        </label>
+        <button
+          type="button"
+          onClick={() => onAddToQueue(recipe, amount)}
+          className="rounded px-2 py-1 text-xs text-[var(--accent)] hover:bg-[var(--border)]"
+        >
+          Add to queue
+        </button>
+      </div>
+      <div className="mb-1.5 flex items-center justify-between gap-2 text-xs text-[var(--muted)]">
+        <span>
+          {tree.crafts} {tree.crafts === 1 ? "craft" : "crafts"} → {tree.produced} {recipe.CraftedItem}
+        </span>
+        <label className="flex items-center gap-1.5">
+          <input type="checkbox" checked={cheapest} onChange={() => setCheapest((c) => !c)} />
+          Cheapest variants
+        </label>
+      </div>
+      <ul className="mb-3 space-y-1">
+        {tree.children.map((child, i) => (
+          <BomTreeNode key={i} node={child} onIngredientClick={onIngredientClick} />
+        ))}
+      </ul>
+      <p className="mb-1.5 text-xs font-medium uppercase tracking-wide text-[var(--muted)]">Raw totals</p>
+      <ul className="space-y-0.5 text-[var(--text)]">
+        {totals.map((t) => (
+          <li key={t.name} className="flex justify-between gap-2">
+            <span>{t.name}</span>
+            <span className="text-[var(--muted)]">×{t.qty}</span>
+          </li>
+        ))}
+      </ul>
+      <div className="mt-3 flex flex-wrap items-center justify-between gap-2 border-t border-[var(--border)] pt-3">
+        <select
+          value={exportScope}
+          onChange={(e) => setExportScope(e.target.value as PlanScope)}
+          className="rounded border border-[var(--border)] bg-[var(--bg)] px-1.5 py-1 text-xs text-[var(--text)] focus:border-[var(--accent)] focus:outline-none focus:ring-1 focus:ring-[var(--accent)]"
+          aria-label="What to export"
+        >
+          <option value="direct">Direct ingredients</option>
+          <option value="raw">Raw totals</option>
+        </select>
+        <ExportControls
+          fileBase={`${itemSlug(recipe.CraftedItem)}-${exportScope === "raw" ? "raw" : "ingredients"}`}
+          getText={(format) => exportRecipe(planRecipe(tree, exportScope, recipes), format)}
+        />
+      </div>
+    </div>
+  );
+}
+
+/** Crafting queue with per-entry amounts and the merged shopping list; gathered items can be ticked off. */
+function QueueBlock({
+  queue,
+  recipesByName,
+  craftableByName,
+  gathered,
+  flatten,
+  onChangeQty,
+  onRemove,
+  onClear,
+  onToggleGathered,
+  onToggleFlatten,
+  onOpen,
+}: {
+  queue: QueueEntry[];
+  recipesByName: Map<string, CraftingRecipe[]>;
+  craftableByName: Map<string, CraftingRecipe>;
+  gathered: string[];
+  flatten: boolean;
+  onChangeQty: (entry: QueueEntry, qty: number) => void;
+  onRemove: (entry: QueueEntry) => void;
+  onClear: () => void;
+  onToggleGathered: (name: string) => void;
+  onToggleFlatten: () => void;
+  onOpen: (name: string) => void;
+}) {
+  const shopping = useMemo(
+    () => buildShoppingList(queue, recipesByName, craftableByName, flatten),
+    [queue, recipesByName, craftableByName, flatten]
+  );
+  const gatheredSet = useMemo(() => new Set(gathered), [gathered]);
+  const remaining = shopping.filter((s) => !gatheredSet.has(s.name)).length;
+
+  return (
+    <details open className="mb-6 rounded-xl border border-[var(--border)] bg-[var(--surface)] p-4 text-sm">
+      <summary className="cursor-pointer text-[var(--text)]">
+        <span className="font-medium">Crafting queue</span>
+        <span className="text-[var(--muted)]">
+          {" "}· {queue.length} {queue.length === 1 ? "recipe" : "recipes"} · {remaining} of {shopping.length} to gather
+        </span>
+      </summary>
+      <div className="mt-3 grid gap-4 sm:grid-cols-2">
+        <div>
+          <div className="mb-1.5 flex items-center justify-between">
+            <p className="text-xs font-medium uppercase tracking-wide text-[var(--muted)]">Recipes</p>
+            <button type="button" onClick={onClear} className="text-xs text-[var(--muted)] hover:text-[var(--text)]">
+              Clear
+            </button>
+          </div>
+          <ul className="space-y-1">
+            {queue.map((entry) => {
+              const recipe = entryRecipe(entry, recipesByName);
+              const variants = recipesByName.get(entry.name)?.length ?? 0;
+              return (
+                <li key={`${entry.name}/${entry.variant ?? ""}`} className="flex items-center gap-2">
+                  <button
+                    type="button"
+                    onClick={() => onOpen(entry.name)}
+                    className={
+                      "min-w-0 flex-1 truncate text-left hover:underline " +
+                      (recipe ? "text-[var(--accent)]" : "text-red-400 line-through")
+                    }
+                  >
+                    {entry.name}
+                    {recipe && variants > 1 && <span className="text-[var(--muted)]"> · {stationsLabel(recipe)}</span>}
+                  </button>
+                  <input
+                    type="number"
+                    min={1}
+                    value={entry.qty}
+                    onChange={(e) => onChangeQty(entry, Math.max(1, Math.floor(Number(e.target.value)) || 1))}
+                    className="w-16 rounded border border-[var(--border)] bg-[var(--bg)] px-2 py-0.5 text-[var(--text)] focus:border-[var(--accent)] focus:outline-none"
+                    aria-label={`Amount of ${entry.name}`}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => onRemove(entry)}
+                    className="text-[var(--muted)] hover:text-[var(--text)]"
+                    aria-label={`Remove ${entry.name} from queue`}
+                  >
+                    ×
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+        <div>
+          <div className="mb-1.5 flex items-center justify-between">
+            <p className="text-xs font-medium uppercase tracking-wide text-[var(--muted)]">Shopping list</p>
+            <label className="flex items-center gap-1.5 text-xs text-[var(--muted)]">
+              <input type="checkbox" checked={flatten} onChange={onToggleFlatten} />
+              Raw materials only
+            </label>
+          </div>
+          <ul className="max-h-64 space-y-0.5 overflow-y-auto">
+            {shopping.map((item) => {
+              const done = gatheredSet.has(item.name);
+              return (
+                <li key={item.name}>
+                  <label className={"flex items-center gap-2 " + (done ? "text-[var(--muted)] line-through" : "text-[var(--text)]")}>
+                    <input type="checkbox" checked={done} onChange={() => onToggleGathered(item.name)} />
+                    <span className="flex-1">{item.name}</span>
+                    <span className="text-[var(--muted)]">×{item.qty}</span>
+                  </label>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      </div>
+    </details>
+  );
+}
+
+function ChecklistColumn({
+  title,
+  options,
+  selected,
+  onChange,
+}: {
+  title: string;
+  options: string[];
+  selected: string[];
+  onChange: (next: string[]) => void;
+}) {
+  const set = new Set(selected);
+  return (
+    <div>
+      <div className="mb-1.5 flex items-center gap-2">
+        <p className="text-xs font-medium uppercase tracking-wide text-[var(--muted)]">
+          {title} ({selected.length}/{options.length})
+        </p>
+        <button type="button" onClick={() => onChange(options)} className="ml-auto text-xs text-[var(--muted)] hover:text-[var(--text)]">
+          All
+        </button>
+        <button type="button" onClick={() => onChange([])} className="text-xs text-[var(--muted)] hover:text-[var(--text)]">
+          None
+        </button>
+      </div>
+      <ul className="max-h-56 space-y-0.5 overflow-y-auto">
+        {options.map((opt) => (
+          <li key={opt}>
+            <label className="flex items-center gap-2 text-[var(--text)]">
+              <input
+                type="checkbox"
+                checked={set.has(opt)}
+                onChange={() => onChange(set.has(opt) ? selected.filter((o) => o !== opt) : [...selected, opt])}
+              />
+              {opt}
+            </label>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+/** Unlocked crafters and workshops from the player's save, and how locked recipes are shown. */
+function ProgressionBlock({
+  crafters,
+  workshops,
+  progression,
+  lockedCount,
+  onChange,
+}: {
+  crafters: string[];
+  workshops: string[];
+  progression: Progression;
+  lockedCount: number;
+  onChange: (next: Progression) => void;
+}) {
+  return (
+    <div className="mb-6 rounded-xl border border-[var(--border)] bg-[var(--surface)] p-4 text-sm">
+      <div className="mb-3 flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-1.5 text-[var(--text)]">
+          <input
+            type="checkbox"
+            checked={progression.enabled}
+            onChange={() => onChange({ ...progression, enabled: !progression.enabled })}
+          />
+          Only what I have unlocked
+        </label>
+        {(["dim", "hide"] as const).map((mode) => (
+          <label key={mode} className="flex items-center gap-1.5 text-[var(--muted)]">
+            <input
+              type="radio"
+              name="progression-mode"
+              checked={progression.mode === mode}
+              onChange={() => onChange({ ...progression, mode })}
+            />
+            {mode === "dim" ? "Dim locked" : "Hide locked"}
+          </label>
+        ))}
+        <span className="ml-auto text-xs text-[var(--muted)]">{lockedCount} recipes locked</span>
+      </div>
+      <div className="grid gap-4 sm:grid-cols-2">
+        <ChecklistColumn
+          title="Crafters"
+          options={crafters}
+          selected={progression.crafters}
+          onChange={(next) => onChange({ ...progression, crafters: next })}
+        />
+        <ChecklistColumn
+          title="Workshops"
+          options={workshops}
+          selected={progression.workshops}
+          onChange={(next) => onChange({ ...progression, workshops: next })}
+        />
+      </div>
+    </div>
+  );
+}
+
+/** Near misses are recipes that can't be crafted yet but are short of at most this many different items. */
+const NEAR_MISS_MAX_MISSING = 2;
+
+/** Pasted inventory and the recipes it covers, with what near misses still lack. */
+function InventoryBlock({
+  items,
+  craftableByName,
+  knownNames,
+  text,
+  intermediates,
+  onChangeText,
+  onToggleIntermediates,
+  onOpenRecipe,
+}: {
+  items: CraftingRecipe[];
+  craftableByName: Map<string, CraftingRecipe>;
+  knownNames: string[];
+  text: string;
+  intermediates: boolean;
+  onChangeText: (text: string) => void;
+  onToggleIntermediates: () => void;
+  onOpenRecipe: (recipe: CraftingRecipe) => void;
+}) {
+  const [draft, setDraft] = useState(text);
+  useEffect(() => {
+    const t = setTimeout(() => onChangeText(draft), 300);
+    return () => clearTimeout(t);
+  }, [draft, onChangeText]);
+
+  const { inventory, warnings } = useMemo(() => parseInventory(text, knownNames), [text, knownNames]);
+
+  const { craftable, nearMisses } = useMemo(() => {
+    if (inventory.size === 0) return { craftable: [], nearMisses: [] };
+    const results = items
+      .filter((r) => r.SourceItem.length > 0)
+      .map((r) => craftability(r, inventory, craftableByName, intermediates));
+    return {
+      craftable: results.filter((c) => c.maxCrafts > 0),
+      nearMisses: results
+        .filter((c) => c.maxCrafts === 0 && c.usesInventory && c.missing.length <= NEAR_MISS_MAX_MISSING)
+        .sort((a, b) => a.missing.length - b.missing.length),
+    };
+  }, [items, inventory, craftableByName, intermediates]);
+
+  return (
+    <div className="mb-6 rounded-xl border border-[var(--border)] bg-[var(--surface)] p-4 text-sm">
+      <div className="mb-2 flex flex-wrap items-center justify-between gap-2">
+        <p className="text-xs font-medium uppercase tracking-wide text-[var(--muted)]">
+          Inventory · {inventory.size} {inventory.size === 1 ? "item" : "items"}
+        </p>
+        <label className="flex items-center gap-1.5 text-xs text-[var(--muted)]">
+          <input type="checkbox" checked={intermediates} onChange={onToggleIntermediates} />
+          Craft intermediates from inventory
+        </label>
+      </div>
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        rows={5}
+        placeholder={"One item per line, e.g.\nIron Bar: 20\n12 Wood Log"}
+        className="w-full rounded-lg border border-[var(--border)] bg-[var(--bg)] px-3 py-2 font-mono text-[var(--text)] placeholder-[var(--muted)] focus:border-[var(--accent)] focus:outline-none focus:ring-1 focus:ring-[var(--accent)]"
+        aria-label="Inventory"
+      />
+      {warnings.length > 0 && (
+        <ul className="mt-1 text-xs text-red-400">
+          {warnings.map((w, i) => (
+            <li key={i}>{w}</li>
+          ))}
+        </ul>
+      )}
+      {inventory.size > 0 && (
+        <div className="mt-3 grid gap-4 sm:grid-cols-2">
+          <div>
+            <p className="mb-1.5 text-xs font-medium uppercase tracking-wide text-[var(--muted)]">
+              Craftable now ({craftable.length})
+            </p>
+            <ul className="max-h-64 space-y-0.5 overflow-y-auto">
+              {craftable.map((c, i) => (
+                <li key={i} className="flex items-baseline justify-between gap-2">
+                  <button type="button" onClick={() => onOpenRecipe(c.recipe)} className="text-left text-[var(--accent)] hover:underline">
+                    {c.recipe.CraftedItem}
+                  </button>
+                  <span className="shrink-0 text-xs text-[var(--muted)]">
+                    {c.maxCrafts}× craft
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+          <div>
+            <p className="mb-1.5 text-xs font-medium uppercase tracking-wide text-[var(--muted)]">
+              Almost ({nearMisses.length})
+            </p>
+            <ul className="max-h-64 space-y-1 overflow-y-auto">
+              {nearMisses.map((c, i) => (
+                <li key={i}>
+                  <button type="button" onClick={() => onOpenRecipe(c.recipe)} className="text-left text-[var(--accent)] hover:underline">
+                    {c.recipe.CraftedItem}
+                  </button>
+                  <span className="block text-xs text-[var(--muted)]">
+                    missing {c.missing.map((m) => `${m.name} ×${m.qty}`).join(", ")}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Free-text note on the panel's item; saved (debounced) like the inventory text, and on close. */
+function NoteBlock({
+  itemName,
+  note,
+  onChange,
+}: {
+  itemName: string;
+  note: string;
+  onChange: (name: string, text: string) => void;
+}) {
+  const [draft, setDraft] = useState(note);
+  useEffect(() => {
+    if (draft === note) return;
+    const t = setTimeout(() => onChange(itemName, draft), 300);
+    return () => clearTimeout(t);
+  }, [draft, note, itemName, onChange]);
+
+  const latest = useRef({ draft, note });
+  latest.current = { draft, note };
+  useEffect(
+    () => () => {
+      if (latest.current.draft !== latest.current.note) onChange(itemName, latest.current.draft);
+    },
+    [itemName, onChange]
+  );
+
+  return (
+    <div className="rounded-lg border border-[var(--border)] bg-[var(--surface)] p-3 text-sm">
+      <p className="mb-1.5 text-xs font-medium uppercase tracking-wide text-[var(--muted)]">My note</p>
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        rows={3}
+        maxLength={NOTE_MAX_LENGTH}
+        placeholder="Where to farm it, who is making it, …"
+        className="w-full rounded-lg border border-[var(--border)] bg-[var(--bg)] px-3 py-2 text-[var(--text)] placeholder-[var(--muted)] focus:border-[var(--accent)] focus:outline-none focus:ring-1 focus:ring-[var(--accent)]"
+        aria-label="Note"
+      />
+    </div>
+  );
+}
+
+function NameList({ title, names, onOpen }: { title: string; names: string[]; onOpen: (name: string) => void }) {
+  return (
+    <div>
+      <p className="mb-1.5 text-xs font-medium uppercase tracking-wide text-[var(--muted)]">
+        {title} ({names.length})
+      </p>
+      {names.length === 0 ? (
+        <p className="text-[var(--muted)]">None yet.</p>
+      ) : (
+        <div className="flex flex-wrap gap-1.5">
+          {names.map((name) => (
+            <button
+              key={name}
+              type="button"
+              onClick={() => onOpen(name)}
+              className="rounded border border-[var(--border)] px-2 py-0.5 text-[var(--accent)] hover:bg-[var(--border)]"
+            >
+              {name}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Favorites, recently viewed items and notes, with JSON export and import (merged into what is stored). */
+function PersonalBlock({
+  data,
+  onOpen,
+  onClearRecent,
+  onImport,
+}: {
+  data: PersonalData;
+  onOpen: (name: string) => void;
+  onClearRecent: () => void;
+  onImport: (imported: PersonalData) => void;
+}) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [message, setMessage] = useState<{ text: string; error?: boolean } | null>(null);
+  const noted = Object.keys(data.notes).sort((a, b) => a.localeCompare(b));
+
+  const importFile = async (file: File) => {
+    try {
+      const imported = parsePersonalData(await file.text());
+      onImport(imported);
+      const notes = Object.keys(imported.notes).length;
+      setMessage({ text: `Imported ${imported.favorites.length} favorites and ${notes} ${notes === 1 ? "note" : "notes"}.` });
+    } catch (e) {
+      setMessage({ text: `Couldn't import ${file.name}: ${(e as Error).message}`, error: true });
+    }
+  };
+
+  return (
+    <div className="mb-6 space-y-4 rounded-xl border border-[var(--border)] bg-[var(--surface)] p-4 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <p className="text-xs text-[var(--muted)]">Stored in this browser only.</p>
+        <button
+          type="button"
+          onClick={() => downloadText(serializePersonalData(data), "favorites-and-notes.json", "json")}
+          className="ml-auto rounded border border-[var(--border)] px-2 py-1 text-[var(--muted)] hover:text-[var(--text)]"
+        >
+          Export
+        </button>
+        <button
+          type="button"
+          onClick={() => fileInput.current?.click()}
+          className="rounded border border-[var(--border)] px-2 py-1 text-[var(--muted)] hover:text-[var(--text)]"
+        >
+          Import
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) importFile(file);
+            e.target.value = "";
+          }}
+        />
+      </div>
+      {message && (
+        <p className={"text-xs " + (message.error ? "text-red-400" : "text-[var(--muted)]")} role={message.error ? "alert" : "status"}>
+          {message.text}
+        </p>
+      )}
+      <NameList title="Favorites" names={data.favorites} onOpen={onOpen} />
+      <div>
+        <NameList title="Recently viewed" names={data.recent} onOpen={onOpen} />
+        {data.recent.length > 0 && (
+          <button type="button" onClick={onClearRecent} className="mt-1.5 text-xs text-[var(--muted)] hover:text-[var(--text)]">
+            Clear history
+          </button>
+        )}
+      </div>
+      <div>
+        <p className="mb-1.5 text-xs font-medium uppercase tracking-wide text-[var(--muted)]">Notes ({noted.length})</p>
+        {noted.length === 0 ? (
+          <p className="text-[var(--muted)]">Add a note from an item's panel.</p>
+        ) : (
+          <ul className="max-h-60 space-y-1 overflow-y-auto">
+            {noted.map((name) => (
+              <li key={name} className="flex items-baseline gap-2">
+                <button type="button" onClick={() => onOpen(name)} className="shrink-0 text-left text-[var(--accent)] hover:underline">
+                  {name}
+                </button>
+                <span className="truncate text-[var(--muted)]" title={data.notes[name]}>
+                  {data.notes[name]}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function UsedInBlock({
+  usedIn,
+  onOpenRecipe,
+}: {
+  usedIn: UsedIn[];
+  onOpenRecipe: (recipe: CraftingRecipe) => void;
+}) {
+  return (
+    <div className="rounded-lg border border-[var(--border)] bg-[var(--surface)] p-3 text-sm">
+      <p className="mb-1.5 text-xs font-medium uppercase tracking-wide text-[var(--muted)]">
+        Used in ({usedIn.length})
+      </p>
+      {usedIn.length === 0 ? (
+        <p className="text-[var(--muted)]">Not an ingredient in any recipe.</p>
+      ) : (
+        <ul className="max-h-60 space-y-1 overflow-y-auto">
+          {usedIn.map((u, i) => (
+            <li key={i} className="flex items-baseline justify-between gap-2">
+              <button
+                type="button"
+                onClick={() => onOpenRecipe(u.recipe)}
+                className="text-left text-[var(--accent)] hover:underline"
+              >
+                {u.recipe.CraftedItem}
+              </button>
+              <span className="shrink-0 text-xs text-[var(--muted)]">
+                ×{u.qty}
+                {u.recipe.Crafter ? ` · ${u.recipe.Crafter}` : ""}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
 function SidePanel({
   stack,
   craftableByName,
+  recipesByName,
+  cheapestByName,
+  usedInByName,
   obtainingByItem,
   onIngredientClick,
+  onOpenRecipe,
+  onAddToQueue,
+  onShowGraph,
+  onSelectVariant,
   onFetchObtaining,
   onPopToIndex,
   onClose,
+  compareList,
+  onToggleCompare,
+  favorites,
+  onToggleFavorite,
+  notes,
+  onChangeNote,
 }: {
-  stack: CraftingRecipe[];
+  stack: PanelEntry[];
   craftableByName: Map<string, CraftingRecipe>;
+  recipesByName: Map<string, CraftingRecipe[]>;
+  cheapestByName: Map<string, CraftingRecipe>;
+  usedInByName: Map<string, UsedIn[]>;
   obtainingByItem: Record<string, ObtainingState>;
   onIngredientClick: (name: string, parentRecipe: CraftingRecipe) => void;
+  onOpenRecipe: (recipe: CraftingRecipe) => void;
+  onAddToQueue: (recipe: CraftingRecipe, qty: number) => void;
+  onShowGraph: (name: string) => void;
+  onSelectVariant: (recipe: CraftingRecipe) => void;
   onFetchObtaining: (itemName: string) => void;
   onPopToIndex: (index: number) => void;
   onClose: () => void;
+  compareList: CraftingRecipe[];
+  onToggleCompare: (recipe: CraftingRecipe) => void;
+  favorites: string[];
+  onToggleFavorite: (name: string) => void;
+  notes: Record<string, string>;
+  onChangeNote: (name: string, text: string) => void;
 }) {
-  if (stack.length === 0) return null;
-  const current = stack[stack.length - 1];
+  const current: PanelEntry | undefined = stack[stack.length - 1];
+  const currentName = current?.name;
   const craftableNames = useMemo(() => new Set(craftableByName.keys()), [craftableByName]);
-  const obtainingState = obtainingByItem[current.CraftedItem];
+  const obtainingState = currentName === undefined ? undefined : obtainingByItem[currentName];
+  const panelRef = useRef<HTMLDivElement>(null);
+  useFocusTrap(panelRef, onClose);
+
+  useEffect(() => {
+    if (currentName !== undefined && obtainingState === undefined) onFetchObtaining(currentName);
+  }, [currentName, obtainingState, onFetchObtaining]);
 
+  // Navigating unmounts the link that was clicked; keep focus in the panel rather than on <body>.
   useEffect(() => {
-    if (obtainingState === undefined) onFetchObtaining(current.CraftedItem);
-  }, [current.CraftedItem, obtainingState, onFetchObtaining]);
+    const panel = panelRef.current;
+    if (panel && !panel.contains(document.activeElement)) panel.focus();
+  }, [current]);
+
+  if (!current) return null;
+
+  const onKeyDown = (e: KeyboardEvent) => {
+    const target = e.target as HTMLElement;
+    const editing = target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName);
+    if (e.key === "Backspace" && !editing && stack.length > 1) {
+      e.preventDefault();
+      onPopToIndex(stack.length - 2);
+    }
+  };
 
   const showObtaining =
     obtainingState &&
     typeof obtainingState === "object" &&
-    ("text" in obtainingState || "error" in obtainingState);
+    ("nodes" in obtainingState || "error" in obtainingState);
 
   return (
-    <div className="fixed inset-y-0 right-0 z-50 flex w-full max-w-md flex-col border-l border-[var(--border)] bg-[var(--bg)] shadow-xl">
+    <div
+      ref={panelRef}
+      role="dialog"
+      aria-modal="true"
+      aria-label={current.name}
+      tabIndex={-1}
+      onKeyDown={onKeyDown}
+      className="fixed inset-y-0 right-0 z-50 flex w-full max-w-md flex-col border-l border-[var(--border)] bg-[var(--bg)] shadow-xl focus:outline-none"
+    >
       <div className="flex items-center justify-between border-b border-[var(--border)] px-4 py-2">
         <div className="flex min-w-0 flex-1 flex-wrap items-center gap-1 text-sm">
-          {stack.map((r, i) => (
+          {stack.map((entry, i) => (
             <span key={i} className="flex items-center gap-1">
               {i > 0 && <span className="text-[var(--muted)]">›</span>}
               <button
@@ -352,12 +1279,27 @@ function SidePanel({
                   (i === stack.length - 1 ? "font-medium text-[var(--text)]" : "text-[var(--muted)]")
                 }
               >
-                {r.CraftedItem}
+                {entry.name}
               </button>
             </span>
           ))}
         </div>
         <div className="flex shrink-0 gap-2">
+          {current.recipe ? (
+            <Link
+              href={`/item/${itemSlug(current.name)}`}
+              className="rounded px-2 py-1 text-sm text-[var(--muted)] hover:bg-[var(--border)] hover:text-[var(--text)]"
+            >
+              Page
+            </Link>
+          ) : null}
+          <button
+            type="button"
+            onClick={() => onShowGraph(current.name)}
+            className="rounded px-2 py-1 text-sm text-[var(--muted)] hover:bg-[var(--border)] hover:text-[var(--text)]"
+          >
+            Graph
+          </button>
           {stack.length > 1 ? (
             <button
               type="button"
@@ -378,11 +1320,62 @@ function SidePanel({
         </div>
       </div>
       <div className="flex flex-1 flex-col gap-4 overflow-y-auto p-4">
-        <RecipeCard recipe={current} onIngredientClick={onIngredientClick} craftableNames={craftableNames} />
+        {current.recipe ? (
+          <>
+            {(recipesByName.get(current.name)?.length ?? 0) > 1 && (
+              <div className="flex flex-wrap gap-1.5 text-xs" role="group" aria-label="Recipe variants">
+                {recipesByName.get(current.name)!.map((variant, i) => (
+                  <button
+                    key={i}
+                    type="button"
+                    onClick={() => onSelectVariant(variant)}
+                    aria-pressed={variant === current.recipe}
+                    className={
+                      "rounded border px-2 py-1 " +
+                      (variant === current.recipe
+                        ? "border-[var(--accent)] text-[var(--accent)]"
+                        : "border-[var(--border)] text-[var(--muted)] hover:text-[var(--text)]")
+                    }
+                  >
+                    {stationsLabel(variant)}
+                    {variant === cheapestByName.get(current.name) ? " · cheapest" : ""}
+                  </button>
+                ))}
+              </div>
+            )}
+            <RecipeCard
+              recipe={current.recipe}
+              onIngredientClick={onIngredientClick}
+              craftableNames={craftableNames}
+              compared={compareList.includes(current.recipe)}
+              compareFull={compareList.length >= MAX_COMPARE}
+              onToggleCompare={onToggleCompare}
+              favorite={favorites.includes(current.name)}
+              onToggleFavorite={onToggleFavorite}
+            />
+            <BomBlock
+              key={current.name}
+              recipe={current.recipe}
+              craftableByName={craftableByName}
+              cheapestByName={cheapestByName}
+              onIngredientClick={(name) => onIngredientClick(name, current.recipe!)}
+              onAddToQueue={onAddToQueue}
+            />
+          </>
+        ) : (
+          <article className="rounded-xl border border-[var(--border)] bg-[var(--surface)] p-4 shadow-sm">
+            <h2 className="mb-1 text-lg font-semibold text-[var(--text)]">{current.name}</h2>
+            <p className="text-sm text-[var(--muted)]">No crafting recipe — gathered, looted or bought.</p>
+          </article>
+        )}
+        <NoteBlock key={current.name} itemName={current.name} note={notes[current.name] ?? ""} onChange={onChangeNote} />
+        <UsedInBlock usedIn={usedInByName.get(current.name) ?? []} onOpenRecipe={onOpenRecipe} />
         {showObtaining && (
           <ObtainingBlock
-            itemName={current.CraftedItem}
+            itemName={current.name}
             state={obtainingState}
+            craftableByName={craftableByName}
+            onOpenRecipe={onOpenRecipe}
             onLoad={onFetchObtaining}
             onRetry={onFetchObtaining}
           />
@@ -394,40 +1387,90 @@ function SidePanel({
 
 export default function Home() {
   const { items, crafters: craftersFromData, workshops: workshopsFromData, loading, error } = useItems();
+  const { log: changeLog } = useChangeLog();
   const [query, setQuery] = useState("");
+  // Bumped to remount SearchInput when the query changes from outside (URL, back/forward).
+  const [queryInputKey, setQueryInputKey] = useState(0);
+  const [urlReady, setUrlReady] = useState(false);
+  const [searchMode, setSearchMode] = useState<SearchMode>("item");
   const [crafterFilter, setCrafterFilter] = useState("All");
   const [workshopFilter, setWorkshopFilter] = useState("All");
   const [sortKey, setSortKey] = useState<SortKey>("CraftedItem");
   const [sortDir, setSortDir] = useState<SortDir>("asc");
-  const [panelStack, setPanelStack] = useState<CraftingRecipe[]>([]);
+  const [panelStack, setPanelStack] = useState<PanelEntry[]>([]);
   const [obtainingByItem, setObtainingByItem] = useState<Record<string, ObtainingState>>({});
+  const [queue, setQueue] = useLocalStorage<QueueEntry[]>("queue", [], isQueue);
+  const [gathered, setGathered] = useLocalStorage<string[]>("queue-gathered", [], isStringArray);
+  const [flattenQueue, setFlattenQueue] = useLocalStorage("queue-flatten", false, isBoolean);
+  const [showInventory, setShowInventory] = useState(false);
+  const [graphCenter, setGraphCenter] = useState<string | null>(null);
+  const [compareList, setCompareList] = useState<CraftingRecipe[]>([]);
+  const [compareOpen, setCompareOpen] = useState(false);
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  const [showProgression, setShowProgression] = useState(false);
+  const [progression, setProgression] = useLocalStorage<Progression>("progression", DEFAULT_PROGRESSION, isProgression);
+  const [inventoryText, setInventoryText] = useLocalStorage("inventory", "", isString);
+  const [inventoryIntermediates, setInventoryIntermediates] = useLocalStorage("inventory-intermediates", false, isBoolean);
+  const [favorites, setFavorites] = useLocalStorage<string[]>("favorites", [], isStringArray);
+  const [recentItems, setRecentItems] = useLocalStorage<string[]>("recent-items", [], isStringArray);
+  const [notes, setNotes] = useLocalStorage<Record<string, string>>("item-notes", {}, isNoteMap);
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+  const [showPersonal, setShowPersonal] = useState(false);
+
+  // The one live Obtaining request in flight; it is cancelled when the panel moves to another item.
+  const obtainingRequest = useRef<{ itemName: string; controller: AbortController } | null>(null);
 
   const fetchObtaining = useCallback((itemName: string) => {
+    if (obtainingRequest.current?.itemName === itemName) return;
+    obtainingRequest.current?.controller.abort();
     startTransition(() => {
       setObtainingByItem((prev) => {
         const cur = prev[itemName];
         if (cur === "loading") return prev;
-        if (cur && ("text" in cur || "noSection" in cur)) return prev;
+        if (cur && ("nodes" in cur || "noSection" in cur)) return prev;
         return { ...prev, [itemName]: "loading" };
       });
     });
-    fetchObtainingSection(itemName)
-      .then((html) => {
-        if (html === null) {
-          return setObtainingByItem((prev) => ({ ...prev, [itemName]: { noSection: true as const } }));
+    const controller = new AbortController();
+    obtainingRequest.current = { itemName, controller };
+    // Prefer the build-time cache (public/obtaining.json); only items it lacks go to the wiki,
+    // via the IndexedDB cache so sections seen before still show offline.
+    loadObtainingCache()
+      .then((cache) => {
+        const cached = cache?.items[itemName];
+        if (cached === null) return [];
+        if (typeof cached === "string") return [cached];
+        if (cached !== undefined) return cached;
+        return fetchObtainingSectionCached(itemName, { signal: controller.signal }).then((html) =>
+          html === null ? [] : parseObtainingHtml(html)
+        );
+      })
+      .then((nodes) => {
+        const empty = nodes.every((n) => typeof n === "string" && !n.trim());
+        setObtainingByItem((prev) => ({ ...prev, [itemName]: empty ? { noSection: true as const } : { nodes } }));
+      })
+      .catch((e) => {
+        if (controller.signal.aborted) {
+          // Forget the cancelled request, so opening the item again starts a new one.
+          setObtainingByItem(({ [itemName]: _, ...rest }) => rest);
+          return;
         }
-        const text = stripObtainingToPlainText(html);
-        setObtainingByItem((prev) => ({
-          ...prev,
-          [itemName]: text.trim() ? { text } : { noSection: true as const },
-        }));
+        setObtainingByItem((prev) => ({ ...prev, [itemName]: { error: String(e) } }));
       })
-      .catch((e) => setObtainingByItem((prev) => ({ ...prev, [itemName]: { error: String(e) } })));
+      .finally(() => {
+        if (obtainingRequest.current?.controller === controller) obtainingRequest.current = null;
+      });
   }, []);
 
+  const panelItem = panelStack[panelStack.length - 1]?.name;
+  useEffect(() => {
+    const request = obtainingRequest.current;
+    if (request && request.itemName !== panelItem) request.controller.abort();
+  }, [panelItem]);
+
   const handleCardClick = useCallback(
     (recipe: CraftingRecipe) => {
-      setPanelStack([recipe]);
+      setPanelStack([{ name: recipe.CraftedItem, recipe }]);
       fetchObtaining(recipe.CraftedItem);
     },
     [fetchObtaining]
@@ -443,61 +1486,231 @@ export default function Home() {
   const workshopOptions = useMemo(() => {
     if (workshopsFromData?.length) return ["All", ...workshopsFromData];
     const set = new Set<string>(["All"]);
-    items.forEach((r) => r.Workshop && set.add(r.Workshop));
+    items.forEach((r) => {
+      if (r.Workshop) set.add(r.Workshop);
+      if (r.Workshop2) set.add(r.Workshop2);
+    });
     return Array.from(set).sort((a, b) => (a === "All" ? -1 : b === "All" ? 1 : a.localeCompare(b)));
   }, [items, workshopsFromData]);
 
-  const craftableByName = useMemo(() => {
-    const map = new Map<string, CraftingRecipe>();
-    items.forEach((r) => {
-      if (r.CraftedItem && !map.has(r.CraftedItem)) map.set(r.CraftedItem, r);
-    });
-    return map;
-  }, [items]);
+  const recipesByName = useMemo(() => buildRecipesByName(items), [items]);
+
+  // Navigation opens an item's first recipe; SidePanel switches between its variants.
+  const craftableByName = useMemo(
+    () => new Map(Array.from(recipesByName, ([name, list]) => [name, list[0]])),
+    [recipesByName]
+  );
+
+  const cheapestByName = useMemo(() => cheapestRecipes(recipesByName), [recipesByName]);
 
   const craftableNames = useMemo(() => new Set(craftableByName.keys()), [craftableByName]);
 
-  const fuse = useMemo(
-    () =>
-      new Fuse(items, {
-        keys: ["CraftedItem"],
-        threshold: 0.15,
-      }),
-    [items]
+  const usedInByName = useMemo(() => buildUsedInIndex(items), [items]);
+
+  const recentlyChanged = useMemo(
+    () => recentChanges(changeLog, new Date(Date.now() - RECENT_CHANGE_DAYS * 24 * 60 * 60 * 1000)),
+    [changeLog]
   );
 
+  const knownNames = useMemo(
+    () => Array.from(new Set([...craftableByName.keys(), ...usedInByName.keys()])),
+    [craftableByName, usedInByName]
+  );
+
+  const parsedQuery = useMemo(() => parseQuery(query), [query]);
+
+  const locks = useMemo(
+    () => (progression.enabled ? computeLocks(items, progression) : null),
+    [items, progression]
+  );
+
+  const lockedCount = useMemo(
+    () => (locks ? Array.from(locks.values()).filter((l) => l.locked).length : 0),
+    [locks]
+  );
+
+  const searchParams = useMemo<SearchParams>(
+    () => ({
+      // A query with a syntax error is ignored (and reported inline) rather than matching nothing.
+      query: parsedQuery.ok ? parsedQuery.query : null,
+      searchMode,
+      crafter: crafterFilter,
+      workshop: workshopFilter,
+      sortKey,
+      sortDir,
+    }),
+    [parsedQuery, searchMode, crafterFilter, workshopFilter, sortKey, sortDir]
+  );
+
+  const { filtered: searched, metrics, pending: searchPending } = useRecipeSearch(items, searchParams);
+
+  // Computed alongside the search index in the worker; cards show metrics once they arrive.
+  const metricsByRecipe = useMemo(
+    () => new Map<CraftingRecipe, RecipeMetrics>(metrics ? items.map((recipe, i) => [recipe, metrics[i]]) : []),
+    [items, metrics]
+  );
+
+  const favoriteSet = useMemo(() => new Set(favorites), [favorites]);
+
   const filtered = useMemo(() => {
-    let list = query.trim() ? fuse.search(query).map((r) => r.item) : items;
-    if (crafterFilter !== "All") list = list.filter((r) => r.Crafter === crafterFilter);
-    if (workshopFilter !== "All") list = list.filter((r) => r.Workshop === workshopFilter);
-    const mult = sortDir === "asc" ? 1 : -1;
-    list = [...list].sort((a, b) => {
-      const aVal = (a[sortKey] ?? "") as string;
-      const bVal = (b[sortKey] ?? "") as string;
-      return mult * (aVal === bVal ? 0 : aVal < bVal ? -1 : 1);
-    });
+    let list = searched;
+    if (locks && progression.mode === "hide") list = list.filter((r) => !locks.get(r)?.locked);
+    if (favoritesOnly) list = list.filter((r) => favoriteSet.has(r.CraftedItem));
     return list;
-  }, [items, query, fuse, crafterFilter, workshopFilter, sortKey, sortDir]);
+  }, [searched, locks, progression.mode, favoritesOnly, favoriteSet]);
 
   const openIngredient = useCallback(
     (name: string, parentRecipe?: CraftingRecipe) => {
-      const recipe = craftableByName.get(name);
-      if (!recipe) return;
+      const entry: PanelEntry = { name, recipe: craftableByName.get(name) ?? null };
       setPanelStack((prev) => {
-        if (parentRecipe && prev.length === 0) return [parentRecipe, recipe];
-        return [...prev, recipe];
+        if (parentRecipe && prev.length === 0) return [{ name: parentRecipe.CraftedItem, recipe: parentRecipe }, entry];
+        return [...prev, entry];
       });
       fetchObtaining(name);
     },
     [craftableByName, fetchObtaining]
   );
 
+  const openRecipe = useCallback(
+    (recipe: CraftingRecipe) => {
+      setPanelStack((prev) => [...prev, { name: recipe.CraftedItem, recipe }]);
+      fetchObtaining(recipe.CraftedItem);
+    },
+    [fetchObtaining]
+  );
+
+  /** Open an item on its own, replacing the panel's breadcrumbs (palette jumps). */
+  const openItem = useCallback(
+    (name: string) => {
+      setPanelStack([{ name, recipe: craftableByName.get(name) ?? null }]);
+      fetchObtaining(name);
+    },
+    [craftableByName, fetchObtaining]
+  );
+
   const popToIndex = useCallback((index: number) => {
     setPanelStack((prev) => prev.slice(0, index + 1));
   }, []);
 
   const closePanel = useCallback(() => setPanelStack([]), []);
 
+  const selectVariant = useCallback(
+    (recipe: CraftingRecipe) => setPanelStack((prev) => [...prev.slice(0, -1), { name: recipe.CraftedItem, recipe }]),
+    []
+  );
+
+  const toggleFavorite = useCallback((name: string) => setFavorites((prev) => toggleName(prev, name)), [setFavorites]);
+
+  const changeNote = useCallback(
+    (name: string, text: string) => setNotes((prev) => setNote(prev, name, text)),
+    [setNotes]
+  );
+
+  const personalData = useMemo<PersonalData>(
+    () => ({ favorites, recent: recentItems, notes }),
+    [favorites, recentItems, notes]
+  );
+
+  const importPersonal = useCallback(
+    (imported: PersonalData) => {
+      const merged = mergePersonalData(personalData, imported);
+      setFavorites(merged.favorites);
+      setRecentItems(merged.recent);
+      setNotes(merged.notes);
+    },
+    [personalData, setFavorites, setRecentItems, setNotes]
+  );
+
+  // Recently viewed: every item that reaches the top of the panel, however it got there.
+  const currentPanelName = panelStack[panelStack.length - 1]?.name;
+  useEffect(() => {
+    if (currentPanelName) setRecentItems((prev) => pushRecent(prev, currentPanelName));
+  }, [currentPanelName, setRecentItems]);
+
+  const toggleCompare = useCallback((recipe: CraftingRecipe) => setCompareList((prev) => toggleCompared(prev, recipe)), []);
+
+  const queueItem = useCallback(
+    (recipe: CraftingRecipe, qty: number) =>
+      setQueue((prev) => addToQueue(prev, recipe.CraftedItem, qty, variantKey(recipe))),
+    [setQueue]
+  );
+
+  const queueRecipe = useCallback((recipe: CraftingRecipe) => queueItem(recipe, craftedQuantityOf(recipe)), [queueItem]);
+
+  const setQueueQty = useCallback(
+    (entry: QueueEntry, qty: number) => setQueue((prev) => prev.map((e) => (sameEntry(e, entry) ? { ...e, qty } : e))),
+    [setQueue]
+  );
+
+  const removeFromQueue = useCallback(
+    (entry: QueueEntry) => setQueue((prev) => prev.filter((e) => !sameEntry(e, entry))),
+    [setQueue]
+  );
+
+  const clearQueue = useCallback(() => {
+    setQueue([]);
+    setGathered([]);
+  }, [setQueue, setGathered]);
+
+  const toggleGathered = useCallback(
+    (name: string) => setGathered((prev) => (prev.includes(name) ? prev.filter((n) => n !== name) : [...prev, name])),
+    [setGathered]
+  );
+
+  const applyUrlState = useCallback(
+    (state: UrlState) => {
+      if (state.query !== query) {
+        setQuery(state.query);
+        setQueryInputKey((k) => k + 1);
+      }
+      setSearchMode(state.searchMode === "ingredient" ? "ingredient" : "item");
+      setCrafterFilter(state.crafter);
+      setWorkshopFilter(state.workshop);
+      setSortKey(SORT_KEYS.includes(state.sortKey as SortKey) ? (state.sortKey as SortKey) : "CraftedItem");
+      setSortDir(state.sortDir === "desc" ? "desc" : "asc");
+      setFavoritesOnly(state.favoritesOnly);
+      setPanelStack(state.panel.map(({ name, variant }) => ({ name, recipe: findVariant(recipesByName.get(name), variant) })));
+    },
+    [query, recipesByName]
+  );
+
+  // Restore from the URL once the data is in, since panel entries are resolved against it.
+  useEffect(() => {
+    if (loading || urlReady) return;
+    applyUrlState(readUrlState(window.location.search));
+    setUrlReady(true);
+  }, [loading, urlReady, applyUrlState]);
+
+  useEffect(() => {
+    const onPopState = () => applyUrlState(readUrlState(window.location.search));
+    window.addEventListener("popstate", onPopState);
+    return () => window.removeEventListener("popstate", onPopState);
+  }, [applyUrlState]);
+
+  // Panel navigation pushes a history entry so back/forward walk the breadcrumb; filter and sort
+  // changes replace the current one.
+  useEffect(() => {
+    if (!urlReady) return;
+    const panel = panelStack.map(
+      (e): PanelItem => (e.recipe ? { name: e.name, variant: variantKey(e.recipe) } : { name: e.name })
+    );
+    const search = writeUrlState({
+      query,
+      searchMode,
+      crafter: crafterFilter,
+      workshop: workshopFilter,
+      sortKey,
+      sortDir,
+      favoritesOnly,
+      panel,
+    });
+    if (search === window.location.search) return;
+    const url = window.location.pathname + search + window.location.hash;
+    const panelChanged = !samePanel(readUrlState(window.location.search).panel, panel);
+    if (panelChanged) window.history.pushState(null, "", url);
+    else window.history.replaceState(null, "", url);
+  }, [urlReady, query, searchMode, crafterFilter, workshopFilter, sortKey, sortDir, favoritesOnly, panelStack]);
+
   const toggleSort = useCallback(
     (key: SortKey) => {
       if (sortKey === key) setSortDir((d) => (d === "asc" ? "desc" : "asc"));
@@ -509,6 +1722,86 @@ export default function Home() {
     [sortKey]
   );
 
+  const paletteCommands = useMemo<PaletteCommand[]>(() => {
+    const commands: PaletteCommand[] = [];
+    const openFromPalette = (name: string) => {
+      setGraphCenter(null);
+      setCompareOpen(false);
+      openItem(name);
+    };
+    recentItems.forEach((name) =>
+      commands.push({ id: `recent-${name}`, group: "Recent", label: name, run: () => openFromPalette(name) })
+    );
+    favorites.forEach((name) =>
+      commands.push({ id: `favorite-${name}`, group: "Favorite", label: name, run: () => openFromPalette(name) })
+    );
+    SORT_KEYS.forEach((key) =>
+      (["asc", "desc"] as const).forEach((dir) =>
+        commands.push({
+          id: `sort-${key}-${dir}`,
+          group: "Sort",
+          label: `${SORT_LABELS[key]} ${dir === "asc" ? "↑ ascending" : "↓ descending"}`,
+          hint: sortKey === key && sortDir === dir ? "current" : undefined,
+          run: () => {
+            setSortKey(key);
+            setSortDir(dir);
+          },
+        })
+      )
+    );
+    crafterOptions.forEach((c) =>
+      commands.push({
+        id: `crafter-${c}`,
+        group: "Crafter",
+        label: c === "All" ? "All crafters" : c,
+        hint: crafterFilter === c ? "current" : undefined,
+        run: () => setCrafterFilter(c),
+      })
+    );
+    workshopOptions.forEach((w) =>
+      commands.push({
+        id: `workshop-${w}`,
+        group: "Workshop",
+        label: w === "All" ? "All workshops" : w,
+        hint: workshopFilter === w ? "current" : undefined,
+        run: () => setWorkshopFilter(w),
+      })
+    );
+    [...knownNames].sort((a, b) => a.localeCompare(b)).forEach((name) =>
+      commands.push({
+        id: `item-${name}`,
+        group: "Item",
+        label: name,
+        hint: craftableByName.has(name) ? undefined : "material",
+        run: () => openFromPalette(name),
+      })
+    );
+    return commands;
+  }, [
+    recentItems,
+    favorites,
+    sortKey,
+    sortDir,
+    crafterOptions,
+    crafterFilter,
+    workshopOptions,
+    workshopFilter,
+    knownNames,
+    craftableByName,
+    openItem,
+  ]);
+
+  useEffect(() => {
+    const onKeyDown = (e: globalThis.KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "k") {
+        e.preventDefault();
+        setPaletteOpen((open) => !open);
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
   if (loading) {
     return (
       <div className="mx-auto max-w-5xl px-4 py-12 text-center text-[var(--muted)]">Loading recipes…</div>
@@ -528,12 +1821,54 @@ export default function Home() {
       <header className="mb-8">
         <h1 className="mb-1 text-2xl font-bold text-[var(--text)]">Enshrouded Crafting Index</h1>
         <p className="text-sm text-[var(--muted)]">
-          {items.length} recipes from the wiki — search by item, crafter, or ingredient.
+          {items.length} recipes from the wiki — search by item, crafter, or ingredient.{" "}
+          <Link href="/changes" className="text-[var(--accent)] hover:underline">
+            What changed
+          </Link>
+          {" · "}
+          <button type="button" onClick={() => setPaletteOpen(true)} className="text-[var(--accent)] hover:underline">
+            Commands
+          </button>{" "}
+          <kbd className="rounded border border-[var(--border)] px-1 text-xs">Ctrl K</kbd>
         </p>
       </header>
 
       <div className="mb-6 space-y-4">
-        <SearchInput value={query} onChange={setQuery} />
+        <div className="flex gap-2">
+          <SearchInput
+            key={queryInputKey}
+            value={query}
+            onChange={setQuery}
+            placeholder={
+              searchMode === "ingredient"
+                ? "Search by ingredient…"
+                : 'Search by item name… (e.g. crafter:Blacksmith uses:"Iron Bar" depth<=2)'
+            }
+          />
+          <div className="flex shrink-0 overflow-hidden rounded-lg border border-[var(--border)] text-sm" role="group" aria-label="Search mode">
+            {(["item", "ingredient"] as const).map((mode) => (
+              <button
+                key={mode}
+                type="button"
+                onClick={() => setSearchMode(mode)}
+                aria-pressed={searchMode === mode}
+                className={
+                  "px-3 " +
+                  (searchMode === mode
+                    ? "bg-[var(--accent-dim)] text-[var(--text)]"
+                    : "bg-[var(--surface)] text-[var(--muted)] hover:text-[var(--text)]")
+                }
+              >
+                {mode === "item" ? "Item" : "Ingredient"}
+              </button>
+            ))}
+          </div>
+        </div>
+        {!parsedQuery.ok && (
+          <p className="text-sm text-red-400" role="alert">
+            {parsedQuery.error}
+          </p>
+        )}
         <div className="flex flex-wrap items-center gap-3">
           <label className="flex items-center gap-2 text-sm text-[var(--muted)]">
             <span className="shrink-0">Crafter</span>
@@ -565,12 +1900,112 @@ export default function Home() {
               ))}
             </select>
           </label>
+          <button
+            type="button"
+            onClick={() => setFavoritesOnly((v) => !v)}
+            aria-pressed={favoritesOnly}
+            className={
+              "rounded border px-2 py-1.5 text-sm " +
+              (favoritesOnly
+                ? "border-[var(--accent)] text-[var(--accent)]"
+                : "border-[var(--border)] text-[var(--muted)] hover:text-[var(--text)]")
+            }
+          >
+            {favoritesOnly ? "★" : "☆"} Favorites ({favorites.length})
+          </button>
+          <button
+            type="button"
+            onClick={() => setShowProgression((v) => !v)}
+            aria-pressed={showProgression}
+            className={
+              "ml-auto rounded border px-2 py-1.5 text-sm " +
+              (showProgression || progression.enabled
+                ? "border-[var(--accent)] text-[var(--accent)]"
+                : "border-[var(--border)] text-[var(--muted)] hover:text-[var(--text)]")
+            }
+          >
+            Progression
+          </button>
+          <button
+            type="button"
+            onClick={() => setShowInventory((v) => !v)}
+            aria-pressed={showInventory}
+            className={
+              "rounded border px-2 py-1.5 text-sm " +
+              (showInventory
+                ? "border-[var(--accent)] text-[var(--accent)]"
+                : "border-[var(--border)] text-[var(--muted)] hover:text-[var(--text)]")
+            }
+          >
+            What can I craft?
+          </button>
+          <button
+            type="button"
+            onClick={() => setShowPersonal((v) => !v)}
+            aria-pressed={showPersonal}
+            className={
+              "rounded border px-2 py-1.5 text-sm " +
+              (showPersonal
+                ? "border-[var(--accent)] text-[var(--accent)]"
+                : "border-[var(--border)] text-[var(--muted)] hover:text-[var(--text)]")
+            }
+          >
+            Favorites & notes
+          </button>
         </div>
       </div>
 
-      <div className="mb-4 flex items-center gap-4 text-sm text-[var(--muted)]">
+      {showProgression && (
+        <ProgressionBlock
+          crafters={crafterOptions.filter((o) => o !== "All")}
+          workshops={workshopOptions.filter((o) => o !== "All")}
+          progression={progression}
+          lockedCount={lockedCount}
+          onChange={setProgression}
+        />
+      )}
+
+      {showPersonal && (
+        <PersonalBlock
+          data={personalData}
+          onOpen={openItem}
+          onClearRecent={() => setRecentItems([])}
+          onImport={importPersonal}
+        />
+      )}
+
+      {showInventory && (
+        <InventoryBlock
+          items={items}
+          craftableByName={craftableByName}
+          knownNames={knownNames}
+          text={inventoryText}
+          intermediates={inventoryIntermediates}
+          onChangeText={setInventoryText}
+          onToggleIntermediates={() => setInventoryIntermediates((v) => !v)}
+          onOpenRecipe={handleCardClick}
+        />
+      )}
+
+      {queue.length > 0 && (
+        <QueueBlock
+          queue={queue}
+          recipesByName={recipesByName}
+          craftableByName={craftableByName}
+          gathered={gathered}
+          flatten={flattenQueue}
+          onChangeQty={setQueueQty}
+          onRemove={removeFromQueue}
+          onClear={clearQueue}
+          onToggleGathered={toggleGathered}
+          onToggleFlatten={() => setFlattenQueue((f) => !f)}
+          onOpen={(name) => openIngredient(name)}
+        />
+      )}
+
+      <div className="mb-4 flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-[var(--muted)]">
         <span>Sort by:</span>
-        {(["CraftedItem", "Crafter", "Workshop"] as const).map((key) => (
+        {SORT_KEYS.map((key) => (
           <button
             key={key}
             type="button"
@@ -580,32 +2015,126 @@ export default function Home() {
               (sortKey === key ? "text-[var(--accent)]" : "hover:text-[var(--text)]")
             }
           >
-            {key === "CraftedItem" ? "Item" : key}
+            {SORT_LABELS[key]}
             {sortKey === key && (sortDir === "asc" ? " ↑" : " ↓")}
           </button>
         ))}
       </div>
 
-      <p className="mb-4 text-sm text-[var(--muted)]">
-        {filtered.length} {filtered.length === 1 ? "recipe" : "recipes"}
-      </p>
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-[var(--muted)]">
+          {filtered.length} {filtered.length === 1 ? "recipe" : "recipes"}
+          {searchPending && " (searching…)"}
+        </p>
+        {filtered.length > 0 && (
+          <ExportControls label="Export results" fileBase="recipes" getText={(format) => exportRecipeList(filtered, format)} />
+        )}
+      </div>
 
-      <section className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3" aria-label="Recipe list">
-        {filtered.map((recipe, i) => (
+      <VirtualGrid
+        items={filtered}
+        getKey={(recipe, i) => `${recipe.CraftedItem}-${recipe.Crafter}-${i}`}
+        aria-label="Recipe list"
+        renderItem={(recipe, _, active) => (
           <RecipeCard
-            key={`${recipe.CraftedItem}-${recipe.Crafter}-${i}`}
             recipe={recipe}
             onCardClick={handleCardClick}
             onIngredientClick={openIngredient}
+            onAddToQueue={queueRecipe}
             craftableNames={craftableNames}
+            changeBadge={recentlyChanged.get(recipe.CraftedItem)}
+            lockedReason={locks ? describeLock(locks.get(recipe) ?? { locked: false }) : undefined}
+            variantCount={recipesByName.get(recipe.CraftedItem)?.length}
+            metrics={metricsByRecipe.get(recipe)}
+            compared={compareList.includes(recipe)}
+            compareFull={compareList.length >= MAX_COMPARE}
+            onToggleCompare={toggleCompare}
+            favorite={favoriteSet.has(recipe.CraftedItem)}
+            onToggleFavorite={toggleFavorite}
+            note={notes[recipe.CraftedItem]}
+            tabIndex={active ? 0 : -1}
           />
-        ))}
-      </section>
+        )}
+      />
 
-      {filtered.length === 0 && (
+      {filtered.length === 0 && !searchPending && (
         <p className="py-12 text-center text-[var(--muted)]">No recipes match your filters.</p>
       )}
 
+      {graphCenter && (
+        <DependencyGraph
+          center={graphCenter}
+          craftableByName={craftableByName}
+          usedInByName={usedInByName}
+          onRecenter={setGraphCenter}
+          onOpen={(name) => {
+            setGraphCenter(null);
+            if (panelStack[panelStack.length - 1]?.name !== name) openIngredient(name);
+          }}
+          onClose={() => setGraphCenter(null)}
+        />
+      )}
+
+      {paletteOpen && (
+        <CommandPalette
+          commands={paletteCommands}
+          hiddenUntilTyped={PALETTE_TYPED_GROUPS}
+          onClose={() => setPaletteOpen(false)}
+        />
+      )}
+
+      {compareList.length > 0 && !compareOpen && (
+        <div
+          className="fixed inset-x-0 bottom-4 z-30 mx-auto flex w-fit max-w-[calc(100%-2rem)] flex-wrap items-center gap-2 rounded-xl border border-[var(--border)] bg-[var(--surface)] px-3 py-2 text-sm shadow-xl"
+          role="region"
+          aria-label="Recipes to compare"
+        >
+          {compareList.map((recipe, i) => (
+            <span key={i} className="flex items-center gap-1 rounded bg-[var(--border)]/60 px-2 py-0.5" title={stationsLabel(recipe)}>
+              <span className="text-[var(--text)]">{recipe.CraftedItem}</span>
+              <button
+                type="button"
+                onClick={() => toggleCompare(recipe)}
+                className="text-[var(--muted)] hover:text-[var(--text)]"
+                aria-label={`Remove ${recipe.CraftedItem} from comparison`}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+          <button
+            type="button"
+            onClick={() => setCompareOpen(true)}
+            disabled={compareList.length < 2}
+            title={compareList.length < 2 ? "Pick at least two recipes" : undefined}
+            className="rounded bg-[var(--accent-dim)] px-3 py-1 font-medium text-[var(--text)] disabled:opacity-40"
+          >
+            Compare {compareList.length}
+          </button>
+          <button
+            type="button"
+            onClick={() => setCompareList([])}
+            className="rounded px-2 py-1 text-[var(--muted)] hover:bg-[var(--border)] hover:text-[var(--text)]"
+          >
+            Clear
+          </button>
+        </div>
+      )}
+
+      {compareOpen && compareList.length > 0 && (
+        <CompareView
+          recipes={compareList}
+          craftableByName={craftableByName}
+          metricsByRecipe={metricsByRecipe}
+          onRemove={toggleCompare}
+          onOpen={(recipe) => {
+            setCompareOpen(false);
+            handleCardClick(recipe);
+          }}
+          onClose={() => setCompareOpen(false)}
+        />
+      )}
+
       {panelStack.length > 0 && (
         <>
           <div
@@ -616,11 +2145,24 @@ export default function Home() {
           <SidePanel
             stack={panelStack}
             craftableByName={craftableByName}
+            recipesByName={recipesByName}
+            cheapestByName={cheapestByName}
+            usedInByName={usedInByName}
             obtainingByItem={obtainingByItem}
             onIngredientClick={openIngredient}
+            onOpenRecipe={openRecipe}
+            onAddToQueue={queueItem}
+            onShowGraph={setGraphCenter}
+            onSelectVariant={selectVariant}
             onFetchObtaining={fetchObtaining}
             onPopToIndex={popToIndex}
             onClose={closePanel}
+            compareList={compareList}
+            onToggleCompare={toggleCompare}
+            favorites={favorites}
+            onToggleFavorite={toggleFavorite}
+            notes={notes}
+            onChangeNote={changeNote}
           />
         </>
       )}
@@ -1,10 +1,12 @@
 /**
- * Schema from Data:Crafting_Recipes.json — one object per crafted item.
+ * Schema from Data:Crafting_Recipes.json — one object per recipe. An item with alternate recipes
+ * appears once per variant, e.g. at a different crafter or workshop.
  */
 export interface CraftingRecipe {
   CraftedItem: string;
   Crafter: string;
   Workshop: string | null;
+  /** Second station the recipe needs, shown and filtered alongside Workshop. */
   Workshop2?: string | null;
   CraftedQuantity: string;
   SourceItem: string[];
@@ -0,0 +1,119 @@
+/**
+ * Offline support. Registered by app/components/ServiceWorkerRegistration.tsx at <base>/sw.js, so
+ * the registration scope is the site's base path and every URL below is derived from it.
+ *
+ * - Pages: network first, falling back to the cached page, then to the cached index.
+ * - /_next/static: cache first (file names are content-hashed), in a cache of its own trimmed to
+ *   the newest MAX_STATIC_ENTRIES, since every deployment leaves its old hashes behind.
+ * - Data files: served from cache and revalidated in the background. When a revalidated
+ *   items.json differs from the cached one, open pages are told so they can offer a refresh.
+ *
+ * Bump VERSION when this strategy changes; old caches are dropped on activate.
+ */
+const VERSION = "v2";
+const SHELL_CACHE = `shell-${VERSION}`;
+const STATIC_CACHE = `static-${VERSION}`;
+const DATA_CACHE = `data-${VERSION}`;
+const CACHES = [SHELL_CACHE, STATIC_CACHE, DATA_CACHE];
+
+/** A deployment has a few dozen static files; this keeps the current one plus some slack. */
+const MAX_STATIC_ENTRIES = 100;
+
+const base = new URL(self.registration.scope).pathname;
+const DATA_FILES = ["items.json", "changes.json", "obtaining.json"].map((file) => base + file);
+const SHELL_FILES = [base, `${base}manifest.webmanifest`, `${base}icon.svg`];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    Promise.all([
+      caches.open(SHELL_CACHE).then((cache) => cache.addAll(SHELL_FILES)),
+      // Data is best effort: changes.json and obtaining.json may not exist on every deployment.
+      caches.open(DATA_CACHE).then((cache) => Promise.allSettled(DATA_FILES.map((url) => cache.add(url)))),
+    ]).then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((k) => !CACHES.includes(k)).map((k) => caches.delete(k))))
+      .then(() => self.clients.claim())
+  );
+});
+
+async function notifyClients(message) {
+  const clients = await self.clients.matchAll({ type: "window" });
+  clients.forEach((client) => client.postMessage(message));
+}
+
+async function staleWhileRevalidate(event) {
+  const cache = await caches.open(DATA_CACHE);
+  const key = new URL(event.request.url).pathname;
+  const cached = await cache.match(key);
+  const revalidate = fetch(event.request, { cache: "no-cache" })
+    .then(async (response) => {
+      if (!response.ok) return response;
+      if (cached && key === `${base}items.json`) {
+        const [before, after] = await Promise.all([cached.clone().text(), response.clone().text()]);
+        if (before !== after) notifyClients({ type: "items-updated" });
+      }
+      await cache.put(key, response.clone());
+      return response;
+    })
+    .catch((error) => {
+      if (cached) return cached;
+      throw error;
+    });
+  if (cached) {
+    event.waitUntil(revalidate.catch(() => {}));
+    return cached;
+  }
+  return revalidate;
+}
+
+/** Drop the oldest entries (keys come back in insertion order) beyond `max`. */
+async function trimCache(cache, max) {
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - max)).map((key) => cache.delete(key)));
+}
+
+async function cacheFirst(event) {
+  const cache = await caches.open(STATIC_CACHE);
+  const cached = await cache.match(event.request);
+  if (cached) return cached;
+  const response = await fetch(event.request);
+  if (response.ok) {
+    event.waitUntil(cache.put(event.request, response.clone()).then(() => trimCache(cache, MAX_STATIC_ENTRIES)));
+  }
+  return response;
+}
+
+async function networkFirst(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (error) {
+    // Client-side navigations add ?_rsc=… to page payload requests; match without it.
+    const cached = (await cache.match(request)) ?? (await cache.match(request, { ignoreSearch: true }));
+    if (cached) return cached;
+    if (request.mode === "navigate") {
+      const index = await cache.match(base);
+      if (index) return index;
+    }
+    throw error;
+  }
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin || !url.pathname.startsWith(base)) return;
+
+  if (DATA_FILES.includes(url.pathname)) event.respondWith(staleWhileRevalidate(event));
+  else if (url.pathname.startsWith(`${base}_next/static/`)) event.respondWith(cacheFirst(event));
+  else event.respondWith(networkFirst(request));
+});
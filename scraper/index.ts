@@ -0,0 +1,120 @@
+/**
+ * Fetches crafting recipes JSON from the Enshrouded wiki Data namespace (raw, or RECIPES_URL),
+ * regrouping the flat one-row-per-ingredient format into recipes (see normalize.ts).
+ * Writes to data/crafted-items-<ISO8601>.json (or OUTPUT_PATH), plus a validation report
+ * at data/validation-report.json (or VALIDATION_REPORT_PATH).
+ *
+ * Records failing the schema are dropped from the snapshot and listed in the report. The run
+ * fails when nothing valid is left, or when more than SCRAPE_MAX_INVALID records were dropped
+ * (unset means not enforced).
+ */
+
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { buildValidationReport } from "../app/lib/schema";
+import { normalizeRecipes, parseRecipePayload } from "./normalize";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const REPO_ROOT = path.resolve(__dirname, "..");
+const DATA_DIR = process.env.DATA_DIR || path.join(REPO_ROOT, "data");
+
+const DATA_URL =
+  process.env.RECIPES_URL ||
+  "https://enshrouded.wiki.gg/wiki/Data:Crafting_Recipes.json?action=raw&ctype=application/json";
+
+function isoFilename(): string {
+  const d = new Date();
+  return d.toISOString().replace(/:/g, "-").slice(0, 19);
+}
+
+function thresholdFromEnv(name: string): number | undefined {
+  const value = process.env[name];
+  if (value === undefined || value === "") return undefined;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 0) {
+    throw new Error(`${name} must be a whole number, got ${JSON.stringify(value)}`);
+  }
+  return n;
+}
+
+function ensureDataDir(): void {
+  fs.mkdirSync(DATA_DIR, { recursive: true });
+  console.log("[scraper] data dir:", DATA_DIR);
+}
+
+/**
+ * Fetch raw JSON from wiki Data: page. Also accepts the HTML-wrapped rendering of it.
+ * @returns Parsed JSON (array or object).
+ */
+async function fetchCraftingRecipes(): Promise<object> {
+  console.log("[scraper] URL:", DATA_URL);
+
+  const res = await fetch(DATA_URL, {
+    headers: {
+      Accept: "application/json",
+      "User-Agent": "EnshroudedCraftingIndex/1.0 (https://github.com/enshrouded-crafting-index)",
+    },
+  });
+
+  if (!res.ok) {
+    throw new Error(`HTTP ${res.status}: ${res.statusText}`);
+  }
+
+  const text = await res.text();
+  let data: unknown;
+  try {
+    data = parseRecipePayload(text);
+  } catch (e) {
+    throw new Error(`Invalid JSON: ${(e as Error).message}. First 200 chars: ${text.slice(0, 200)}`);
+  }
+
+  if (data === null || typeof data !== "object") {
+    throw new Error("Response is not a JSON object or array");
+  }
+
+  return data;
+}
+
+async function main() {
+  const outputPath =
+    process.env.OUTPUT_PATH || path.join(DATA_DIR, `crafted-items-${isoFilename()}.json`);
+  const reportPath = process.env.VALIDATION_REPORT_PATH || path.join(DATA_DIR, "validation-report.json");
+  const maxInvalid = thresholdFromEnv("SCRAPE_MAX_INVALID");
+
+  ensureDataDir();
+
+  const data = await fetchCraftingRecipes();
+  const { format, records: items } = normalizeRecipes(data);
+  console.log("[scraper] format:", format);
+  console.log("[scraper] item count:", items.length);
+
+  // Every record is validated; the report is written either way so a failed run can be inspected.
+  const report = buildValidationReport(DATA_URL, items);
+  fs.writeFileSync(reportPath, JSON.stringify(report, null, 2), "utf8");
+  console.log("[scraper] validation report:", reportPath);
+
+  if (report.invalidCount > 0) {
+    report.issues.slice(0, 20).forEach((issue) => {
+      console.warn(`[scraper]   #${issue.index} ${issue.item ?? "(unnamed)"}: ${issue.message}`);
+    });
+    console.warn(`[scraper] dropped ${report.invalidCount} of ${report.recordCount} invalid records`);
+  }
+  if (report.validCount === 0 || (maxInvalid !== undefined && report.invalidCount > maxInvalid)) {
+    const limit = report.validCount === 0 ? "no valid records" : `more than SCRAPE_MAX_INVALID=${maxInvalid}`;
+    console.error(
+      `[scraper] Validation failed: ${report.invalidCount} of ${report.recordCount} records invalid (${limit}). Skipping export.`
+    );
+    process.exit(1);
+  }
+
+  const invalid = new Set(report.issues.map((issue) => issue.index));
+  const valid = items.filter((_, index) => !invalid.has(index));
+  fs.writeFileSync(outputPath, JSON.stringify(valid, null, 2), "utf8");
+  console.log("[scraper] wrote:", outputPath, `(${valid.length} records)`);
+}
+
+main().catch((err) => {
+  console.error("[scraper] error:", err.message);
+  process.exit(1);
+});
@@ -0,0 +1,102 @@
+/**
+ * Turns whatever the wiki's Data:Crafting_Recipes.json returns into one CraftingRecipe-shaped
+ * record per recipe. The page comes in three shapes:
+ *
+ * - grouped: one object per recipe, SourceItem/SourceQuantity as parallel arrays;
+ * - flat: one object per ingredient, SourceItem and SourceQuantity as strings
+ *   (see data/debug-snippet.html);
+ * - either of the above HTML-wrapped, as rendered inside `<div class="mw-parser-output"><p>…`.
+ */
+
+export type RecipeFormat = "grouped" | "flat" | "empty";
+
+const HTML_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " " };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return HTML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/** Parse the response body, unwrapping the rendered-HTML variant when it isn't bare JSON. */
+export function parseRecipePayload(text: string): unknown {
+  const trimmed = text.trim();
+  if (!trimmed.startsWith("<")) return JSON.parse(trimmed);
+  // Markup inside JSON strings is entity-encoded, so every literal tag belongs to the wrapper.
+  const json = decodeEntities(trimmed.replace(/<[^>]*>/g, "")).trim();
+  return JSON.parse(json);
+}
+
+/** Flatten an array, or an object of arrays/records keyed by item, into a list of records. */
+export function toRecordArray(data: unknown): unknown[] {
+  if (Array.isArray(data)) return data;
+  if (typeof data === "object" && data !== null) {
+    const values = Object.values(data);
+    if (values.every(Array.isArray)) return values.flat();
+    return values;
+  }
+  return [];
+}
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+
+/** Flat when any record carries a single ingredient as a string rather than an array. */
+export function detectFormat(records: unknown[]): RecipeFormat {
+  if (records.length === 0) return "empty";
+  return records.some((r) => isRecord(r) && typeof r.SourceItem === "string") ? "flat" : "grouped";
+}
+
+/** "2" → 2; anything that isn't a clean number is left as-is for validation to report. */
+function toQuantity(value: unknown): unknown {
+  if (typeof value !== "string" || value.trim() === "") return value;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : value;
+}
+
+/**
+ * Merge one-row-per-ingredient records into recipes keyed by item, crafter and workshop(s),
+ * keeping the order in which recipes and their ingredients first appear.
+ */
+export function regroupFlatRows(rows: unknown[]): unknown[] {
+  const groups = new Map<string, Record<string, unknown> & { SourceItem: unknown[]; SourceQuantity: unknown[] }>();
+  const passthrough: unknown[] = [];
+  rows.forEach((row) => {
+    if (!isRecord(row)) {
+      passthrough.push(row);
+      return;
+    }
+    const key = JSON.stringify([row.CraftedItem, row.Crafter ?? null, row.Workshop ?? null, row.Workshop2 ?? null]);
+    let group = groups.get(key);
+    if (!group) {
+      const { SourceItem: _s, SourceQuantity: _q, ...rest } = row;
+      group = { ...rest, SourceItem: [], SourceQuantity: [] };
+      groups.set(key, group);
+    }
+    const sources = Array.isArray(row.SourceItem) ? row.SourceItem : row.SourceItem == null ? [] : [row.SourceItem];
+    const quantities = Array.isArray(row.SourceQuantity)
+      ? row.SourceQuantity
+      : row.SourceQuantity == null
+        ? []
+        : [row.SourceQuantity];
+    group.SourceItem.push(...sources);
+    group.SourceQuantity.push(...quantities.map(toQuantity));
+  });
+  return [...groups.values(), ...passthrough];
+}
+
+/** Detect the format and return grouped records, with numeric-string quantities coerced. */
+export function normalizeRecipes(data: unknown): { format: RecipeFormat; records: unknown[] } {
+  const records = toRecordArray(data);
+  const format = detectFormat(records);
+  if (format === "flat") return { format, records: regroupFlatRows(records) };
+  return {
+    format,
+    records: records.map((r) =>
+      isRecord(r) && Array.isArray(r.SourceQuantity) ? { ...r, SourceQuantity: r.SourceQuantity.map(toQuantity) } : r
+    ),
+  };
+}
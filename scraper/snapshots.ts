@@ -0,0 +1,45 @@
+/**
+ * Finding and reading recipe snapshots for the Node scripts: data/crafted-items-*.json as the
+ * scraper writes them, or the short-key public/items.json payload.
+ */
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import type { CraftingRecipe } from "../app/types/items";
+import { validateRecipes } from "../app/lib/schema";
+import { decodePayload, isItemsPayload } from "../app/lib/payload";
+import { normalizeRecipes } from "./normalize";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const repoRoot = path.resolve(__dirname, "..");
+/** data/, or DATA_DIR as for the scraper. */
+export const dataDir = process.env.DATA_DIR || path.join(repoRoot, "data");
+export const publicItems = path.join(repoRoot, "public", "items.json");
+
+/** data/crafted-items-*.json, oldest first (the names sort by timestamp). */
+export function listSnapshots(): string[] {
+  if (!fs.existsSync(dataDir)) return [];
+  return fs
+    .readdirSync(dataDir)
+    .filter((f) => f.startsWith("crafted-items-") && f.endsWith(".json"))
+    .sort()
+    .map((f) => path.join(dataDir, f));
+}
+
+/** The latest snapshot, or public/items.json when there is none. */
+export function latestSource(): string | null {
+  const snapshots = listSnapshots();
+  if (snapshots.length) return snapshots[snapshots.length - 1];
+  return fs.existsSync(publicItems) ? publicItems : null;
+}
+
+/** Records of either file format, not yet validated. */
+export function loadRecords(file: string): unknown[] {
+  const data: unknown = JSON.parse(fs.readFileSync(file, "utf8"));
+  return isItemsPayload(data) ? decodePayload(data).records : normalizeRecipes(data).records;
+}
+
+/** The valid recipes of either file format; invalid records are dropped. */
+export function loadRecipes(file: string): CraftingRecipe[] {
+  return validateRecipes(loadRecords(file)).recipes;
+}
@@ -0,0 +1,74 @@
+/**
+ * Fetches the wiki "Obtaining" section for every item in public/items.json and writes it, sanitized
+ * the same way as in the browser, to public/obtaining.json, so SidePanel only falls back to live
+ * requests for items missing from it.
+ *
+ *   tsx scripts/build-obtaining.ts [--refresh]
+ *
+ * Items already in the cache are kept unless --refresh is given; plain-text entries from older
+ * builds are refetched. WIKI_API_URL points the step at another MediaWiki API (e.g. the local
+ * mock in tests/build-obtaining.test.ts), ITEMS_FILE and OBTAINING_FILE override the input and
+ * output paths, and CONCURRENCY limits parallel pages (default 4).
+ */
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { parse } from "node-html-parser";
+import { validateRecipes } from "../app/lib/schema";
+import { decodePayload } from "../app/lib/payload";
+import { WIKI_API, fetchObtainingSection, sanitizeObtaining, type ObtainingCache } from "../app/lib/obtaining";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const repoRoot = path.resolve(__dirname, "..");
+const itemsFile = process.env.ITEMS_FILE || path.join(repoRoot, "public", "items.json");
+const outFile = process.env.OBTAINING_FILE || path.join(repoRoot, "public", "obtaining.json");
+
+const apiUrl = process.env.WIKI_API_URL || WIKI_API;
+const concurrency = Math.max(1, Number(process.env.CONCURRENCY) || 4);
+const refresh = process.argv.includes("--refresh");
+
+if (!fs.existsSync(itemsFile)) {
+  console.warn("[obtaining] public/items.json not found. Run npm run copy-data first.");
+  process.exit(0);
+}
+
+const { recipes } = validateRecipes(decodePayload(JSON.parse(fs.readFileSync(itemsFile, "utf8"))).records);
+// Ingredients open in SidePanel too, so they get cached alongside crafted items.
+const names = Array.from(new Set(recipes.flatMap((r) => [r.CraftedItem, ...r.SourceItem]))).sort();
+
+const cache: ObtainingCache =
+  !refresh && fs.existsSync(outFile)
+    ? JSON.parse(fs.readFileSync(outFile, "utf8"))
+    : { generatedAt: new Date().toISOString(), items: {} };
+const pending = names.filter((name) => !(name in cache.items) || typeof cache.items[name] === "string");
+console.log(`[obtaining] ${names.length} items, ${pending.length} to fetch from ${apiUrl}`);
+
+let failed = 0;
+let done = 0;
+async function worker(queue: string[]) {
+  for (let name = queue.shift(); name !== undefined; name = queue.shift()) {
+    try {
+      const html = await fetchObtainingSection(name, { apiUrl });
+      const nodes = html === null ? [] : sanitizeObtaining(parse(html));
+      cache.items[name] = nodes.length ? nodes : null;
+    } catch (e) {
+      // Left out of the cache, so the site fetches it live and the next run retries.
+      failed++;
+      console.warn(`[obtaining] ${name}: ${(e as Error).message}`);
+    }
+    if (++done % 100 === 0) console.log(`[obtaining] ${done}/${pending.length}`);
+  }
+}
+
+const queue = [...pending];
+await Promise.all(Array.from({ length: concurrency }, () => worker(queue)));
+
+cache.generatedAt = new Date().toISOString();
+const known = new Set(names);
+cache.items = Object.fromEntries(
+  Object.entries(cache.items)
+    .filter(([name]) => known.has(name))
+    .sort(([a], [b]) => a.localeCompare(b))
+);
+fs.writeFileSync(outFile, JSON.stringify(cache), "utf8");
+console.log(`[obtaining] wrote ${outFile} (${Object.keys(cache.items).length} items, ${failed} failed)`);
@@ -0,0 +1,76 @@
+/**
+ * Checks the recipe graph for dangling ingredients, dependency cycles and suspicious quantities,
+ * and writes public/integrity.json for the /diagnostics page.
+ *
+ *   tsx scripts/check-integrity.ts [--no-write]
+ *
+ * Reads the latest data/crafted-items-*.json (data/ or DATA_DIR), or public/items.json when there
+ * is no snapshot.
+ * Exits 1 when a count exceeds its threshold: INTEGRITY_MAX_DANGLING, INTEGRITY_MAX_CYCLES and
+ * INTEGRITY_MAX_QUANTITY_ISSUES (unset means not enforced). The report is written either way.
+ */
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { analyzeIntegrity, exceededThresholds, type IntegrityThresholds } from "../app/lib/integrity";
+import { latestSource, loadRecords } from "../scraper/snapshots";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const repoRoot = path.resolve(__dirname, "..");
+const outFile = path.join(repoRoot, "public", "integrity.json");
+const rawMaterialsFile = path.join(__dirname, "raw-materials.txt");
+
+function readRawMaterials(): string[] {
+  return fs
+    .readFileSync(rawMaterialsFile, "utf8")
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("#"));
+}
+
+function thresholdFromEnv(name: string): number | undefined {
+  const value = process.env[name];
+  if (value === undefined || value === "") return undefined;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 0) {
+    console.error(`[integrity] ${name} must be a whole number, got ${JSON.stringify(value)}`);
+    process.exit(1);
+  }
+  return n;
+}
+
+const write = !process.argv.includes("--no-write");
+const source = latestSource();
+if (!source) {
+  console.warn("[integrity] No snapshot or public/items.json. Run npm run scrape first.");
+  process.exit(0);
+}
+
+const report = analyzeIntegrity(path.basename(source), loadRecords(source), readRawMaterials());
+console.log(
+  `[integrity] ${report.source}: ${report.recipeCount} recipes, ` +
+    `${report.danglingIngredients.length} dangling ingredients, ${report.cycles.length} cycles, ` +
+    `${report.quantityIssues.length} quantity issues`
+);
+report.danglingIngredients.forEach((d) => {
+  const hint = d.suggestion ? ` (did you mean ${d.suggestion}?)` : "";
+  console.log(`[integrity]   dangling: ${d.name}${hint}, used by ${d.usedBy.join(", ")}`);
+});
+report.cycles.forEach((c) => console.log(`[integrity]   cycle: ${c.join(" ↔ ")}`));
+report.quantityIssues.forEach((q) => console.log(`[integrity]   quantity: ${q.item ?? "(unnamed)"}: ${q.message}`));
+
+if (write) {
+  fs.writeFileSync(outFile, JSON.stringify(report), "utf8");
+  console.log("[integrity] wrote", outFile);
+}
+
+const thresholds: IntegrityThresholds = {
+  dangling: thresholdFromEnv("INTEGRITY_MAX_DANGLING"),
+  cycles: thresholdFromEnv("INTEGRITY_MAX_CYCLES"),
+  quantity: thresholdFromEnv("INTEGRITY_MAX_QUANTITY_ISSUES"),
+};
+const exceeded = exceededThresholds(report, thresholds);
+if (exceeded.length) {
+  exceeded.forEach((reason) => console.error(`[integrity] threshold exceeded: ${reason}`));
+  process.exit(1);
+}
@@ -0,0 +1,188 @@
+/**
+ * Query the recipe data from the command line, with the same logic the site uses.
+ *
+ *   npm run cli -- recipe <item>
+ *   npm run cli -- used-in <item>
+ *   npm run cli -- bom <item> [qty] [--cheapest]
+ *   npm run cli -- search <text> [--crafter X] [--workshop Y] [--ingredient]
+ *
+ * Add --json for machine-readable output. Reads the latest data/crafted-items-*.json, or
+ * public/items.json when there is no snapshot; --data <file> reads a specific one. Item, crafter
+ * and workshop names match case-insensitively. Exits 1 on usage errors and 2 when one isn't found.
+ */
+import { parseArgs } from "util";
+import { buildRecipesByName, buildUsedInIndex, stationsLabel } from "../app/lib/recipes";
+import { bomTotals, cheapestRecipes, craftedQuantityOf, expandBom, type BomNode } from "../app/lib/bom";
+import { parseQuery } from "../app/lib/query";
+import { buildSearchIndex, runSearch } from "../app/lib/search";
+import { latestSource, loadRecipes } from "../scraper/snapshots";
+
+const USAGE = `Usage:
+  npm run cli -- recipe <item>
+  npm run cli -- used-in <item>
+  npm run cli -- bom <item> [qty] [--cheapest]
+  npm run cli -- search <text> [--crafter X] [--workshop Y] [--ingredient]
+Options: --json, --data <file>`;
+
+function fail(message: string, code = 1): never {
+  console.error(message);
+  process.exit(code);
+}
+
+/** Left-aligned columns separated by two spaces, with a rule under the header. */
+function printTable(headers: string[], rows: (string | number)[][]) {
+  const cells = [headers, ...rows.map((row) => row.map(String))];
+  const widths = headers.map((_, col) => Math.max(...cells.map((row) => row[col].length)));
+  const line = (row: string[]) => row.map((cell, col) => cell.padEnd(widths[col])).join("  ").trimEnd();
+  console.log(line(cells[0]));
+  console.log(widths.map((w) => "-".repeat(w)).join("  "));
+  cells.slice(1).forEach((row) => console.log(line(row)));
+}
+
+// Piping into head or similar closes stdout early; that isn't an error for a query tool.
+process.stdout.on("error", (e: NodeJS.ErrnoException) => {
+  if (e.code === "EPIPE") process.exit(0);
+  throw e;
+});
+
+const { values: options, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    json: { type: "boolean", default: false },
+    data: { type: "string" },
+    crafter: { type: "string" },
+    workshop: { type: "string" },
+    ingredient: { type: "boolean", default: false },
+    cheapest: { type: "boolean", default: false },
+    help: { type: "boolean", short: "h", default: false },
+  },
+});
+
+const [command, ...args] = positionals;
+if (options.help) {
+  console.log(USAGE);
+  process.exit(0);
+}
+if (!command) fail(USAGE);
+
+const source = options.data ?? latestSource();
+if (!source) fail("No data/crafted-items-*.json or public/items.json. Run npm run scrape first.");
+const items = loadRecipes(source);
+const recipesByName = buildRecipesByName(items);
+const names = [...new Set([...recipesByName.keys(), ...items.flatMap((r) => r.SourceItem)])];
+
+/** Exact name, else the only case-insensitive match; otherwise exit 2 with close names. */
+function resolveAmong(input: string, candidates: string[], kind: string): string {
+  if (candidates.includes(input)) return input;
+  const lower = input.toLowerCase();
+  const exact = candidates.filter((n) => n.toLowerCase() === lower);
+  if (exact.length === 1) return exact[0];
+  const close = candidates.filter((n) => n.toLowerCase().includes(lower)).sort().slice(0, 10);
+  fail(`No ${kind} named "${input}".${close.length ? ` Did you mean: ${close.join(", ")}?` : ""}`, 2);
+}
+
+function resolveName(input: string | undefined): string {
+  if (!input) fail(USAGE);
+  return resolveAmong(input, names, "item");
+}
+
+/** --crafter / --workshop: "All" when not given, else a crafter or workshop that exists in the data. */
+function resolveStation(input: string | undefined, kind: "crafter" | "workshop"): string {
+  if (input === undefined) return "All";
+  const stations =
+    kind === "crafter" ? items.map((r) => r.Crafter) : items.flatMap((r) => [r.Workshop, r.Workshop2]);
+  return resolveAmong(input, [...new Set(stations.filter((s): s is string => Boolean(s)))], kind);
+}
+
+const output = (json: unknown, table: () => void) => (options.json ? console.log(JSON.stringify(json, null, 2)) : table());
+
+switch (command) {
+  case "recipe": {
+    const name = resolveName(args[0]);
+    const variants = recipesByName.get(name) ?? [];
+    output(variants, () => {
+      if (variants.length === 0) return console.log(`${name} has no crafting recipe (gathered, looted or bought).`);
+      variants.forEach((recipe, i) => {
+        if (i > 0) console.log();
+        console.log(`${name} ×${craftedQuantityOf(recipe)} · ${stationsLabel(recipe)}`);
+        printTable(["Ingredient", "Qty"], recipe.SourceItem.map((ing, j) => [ing, recipe.SourceQuantity[j] ?? 1]));
+      });
+    });
+    break;
+  }
+
+  case "used-in": {
+    const name = resolveName(args[0]);
+    const usedIn = buildUsedInIndex(items).get(name) ?? [];
+    output(
+      usedIn.map(({ recipe, qty }) => ({ item: recipe.CraftedItem, qty, recipe })),
+      () => {
+        if (usedIn.length === 0) return console.log(`${name} isn't used in any recipe.`);
+        printTable(
+          ["Item", "Qty", "Stations"],
+          usedIn.map(({ recipe, qty }) => [recipe.CraftedItem, qty, stationsLabel(recipe)])
+        );
+      }
+    );
+    break;
+  }
+
+  case "bom": {
+    const name = resolveName(args[0]);
+    const qty = args[1] === undefined ? 1 : Number(args[1]);
+    if (!Number.isInteger(qty) || qty < 1) fail(`Quantity must be a whole number ≥ 1, got "${args[1]}"`);
+    const craftableByName = options.cheapest
+      ? cheapestRecipes(recipesByName)
+      : new Map(Array.from(recipesByName, ([n, variants]) => [n, variants[0]]));
+    const tree = expandBom(name, qty, craftableByName);
+    const { crafts, raw: totals } = bomTotals([{ name, qty }], craftableByName);
+    output({ tree, crafts, totals }, () => {
+      const lines: string[] = [];
+      const walk = (node: BomNode, depth: number) => {
+        const crafts = node.recipe && !node.cycle ? ` (${node.crafts} ${node.crafts === 1 ? "craft" : "crafts"})` : "";
+        lines.push(`${"  ".repeat(depth)}${node.needed}× ${node.name}${crafts}${node.cycle ? " (cycle)" : ""}`);
+        node.children.forEach((child) => walk(child, depth + 1));
+      };
+      walk(tree, 0);
+      console.log(lines.join("\n"));
+      if (crafts.length) {
+        console.log();
+        printTable(["Craft", "Times", "Makes"], crafts.map((c) => [c.name, c.crafts, c.produced]));
+      }
+      console.log();
+      printTable(["Raw material", "Qty"], totals.map((t) => [t.name, t.qty]));
+    });
+    break;
+  }
+
+  case "search": {
+    const text = args.join(" ");
+    const parsed = parseQuery(text);
+    if (!parsed.ok) fail(parsed.error);
+    const indices = runSearch(buildSearchIndex(items), {
+      query: parsed.query,
+      searchMode: options.ingredient ? "ingredient" : "item",
+      crafter: resolveStation(options.crafter, "crafter"),
+      workshop: resolveStation(options.workshop, "workshop"),
+      sortKey: "CraftedItem",
+      sortDir: "asc",
+    });
+    const results = indices.map((i) => items[i]);
+    output(results, () => {
+      if (results.length === 0) return console.log("No recipes match.");
+      printTable(
+        ["Item", "Yield", "Stations", "Ingredients"],
+        results.map((r) => [
+          r.CraftedItem,
+          r.CraftedQuantity,
+          stationsLabel(r),
+          r.SourceItem.map((ing, i) => `${r.SourceQuantity[i] ?? 1}× ${ing}`).join(", "),
+        ])
+      );
+    });
+    break;
+  }
+
+  default:
+    fail(`Unknown command "${command}".\n${USAGE}`);
+}
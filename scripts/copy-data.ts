@@ -0,0 +1,73 @@
+/**
+ * Reads the latest data/crafted-items-*.json, optimizes for the frontend, and writes
+ * public/items.json in the current payload format (app/lib/payload.ts): minified, items pre-sorted
+ * by CraftedItem, short keys and a shared string table. Records that fail the shared schema are
+ * dropped and listed.
+ *
+ * Also writes items.json.gz and items.json.br for hosts that serve precompressed files. Without a
+ * snapshot (a fresh checkout) only those are refreshed, from the committed items.json.
+ */
+import fs from "fs";
+import path from "path";
+import zlib from "zlib";
+import { fileURLToPath } from "url";
+import { validateRecipes } from "../app/lib/schema";
+import { encodePayload } from "../app/lib/payload";
+import { normalizeRecipes } from "../scraper/normalize";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const repoRoot = path.resolve(__dirname, "..");
+const dataDir = path.join(repoRoot, "data");
+const publicDir = path.join(repoRoot, "public");
+const outFile = path.join(publicDir, "items.json");
+
+function writeCompressed(file: string) {
+  if (!fs.existsSync(file)) return;
+  const body = fs.readFileSync(file);
+  fs.writeFileSync(`${file}.gz`, zlib.gzipSync(body, { level: zlib.constants.Z_BEST_COMPRESSION }));
+  fs.writeFileSync(
+    `${file}.br`,
+    zlib.brotliCompressSync(body, { params: { [zlib.constants.BROTLI_PARAM_QUALITY]: zlib.constants.BROTLI_MAX_QUALITY } })
+  );
+}
+
+if (!fs.existsSync(dataDir)) {
+  console.warn("[copy-data] data/ not found. Run npm run scrape first.");
+  writeCompressed(outFile);
+  process.exit(0);
+}
+
+const files = fs.readdirSync(dataDir).filter((f) => f.startsWith("crafted-items-") && f.endsWith(".json"));
+if (files.length === 0) {
+  console.warn("[copy-data] No crafted-items-*.json in data/. Run npm run scrape first.");
+  writeCompressed(outFile);
+  process.exit(0);
+}
+
+files.sort();
+const latestPath = path.join(dataDir, files[files.length - 1]);
+const raw = fs.readFileSync(latestPath, "utf8");
+const data: unknown = JSON.parse(raw);
+// Snapshots written before the scraper regrouped flat rows may still be one row per ingredient.
+const { records } = normalizeRecipes(data);
+
+const { recipes: items, issues } = validateRecipes(records);
+issues.forEach((issue) => {
+  console.warn(`[copy-data] skipping #${issue.index} ${issue.item ?? "(unnamed)"}: ${issue.message}`);
+});
+
+const crafters = [...new Set(items.map((r) => r.Crafter).filter(Boolean))].sort();
+const workshops = [
+  ...new Set(items.flatMap((r) => [r.Workshop, r.Workshop2]).filter((w): w is string => Boolean(w))),
+].sort();
+const sorted = [...items].sort((a, b) => a.CraftedItem.localeCompare(b.CraftedItem));
+
+const payload = encodePayload(sorted, crafters, workshops);
+fs.mkdirSync(publicDir, { recursive: true });
+fs.writeFileSync(outFile, JSON.stringify(payload), "utf8");
+writeCompressed(outFile);
+console.log(
+  "[copy-data] wrote",
+  outFile,
+  `(schema v${payload.schemaVersion}, ${payload.strings.length} strings, ${payload.items.length} items, + .gz/.br)`
+);
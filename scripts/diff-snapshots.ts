@@ -0,0 +1,72 @@
+/**
+ * Compares two recipe snapshots and records the difference in public/changes.json.
+ *
+ *   tsx scripts/diff-snapshots.ts [before.json after.json] [--no-write]
+ *
+ * Without paths it diffs the two latest data/crafted-items-*.json, or, when only one exists (as in
+ * a fresh CI checkout), the currently published public/items.json against the latest snapshot.
+ * Either side may be a raw wiki snapshot or the short-key items.json payload.
+ */
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { diffSnapshots, isEmptyDiff, type ChangeLog, type ChangeLogEntry } from "../app/lib/diff";
+import { listSnapshots, loadRecipes, publicItems } from "../scraper/snapshots";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const repoRoot = path.resolve(__dirname, "..");
+const outFile = path.join(repoRoot, "public", "changes.json");
+
+/** Keep the published history small; older entries are still in git. */
+const MAX_ENTRIES = 100;
+
+/** data/crafted-items-2026-01-30T12-00-00.json → 2026-01-30T12:00:00.000Z; otherwise the file's mtime. */
+function snapshotTime(file: string): string {
+  const m = path.basename(file).match(/^crafted-items-(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})/);
+  if (m) return new Date(`${m[1]}T${m[2]}:${m[3]}:${m[4]}Z`).toISOString();
+  return fs.statSync(file).mtime.toISOString();
+}
+
+function defaultInputs(): [string, string] | null {
+  const latest = listSnapshots();
+  if (latest.length >= 2) return [latest[latest.length - 2], latest[latest.length - 1]];
+  if (latest.length === 1 && fs.existsSync(publicItems)) return [publicItems, latest[0]];
+  return null;
+}
+
+const args = process.argv.slice(2);
+const write = !args.includes("--no-write");
+const paths = args.filter((a) => !a.startsWith("--"));
+const inputs = paths.length === 2 ? ([paths[0], paths[1]] as [string, string]) : defaultInputs();
+if (!inputs) {
+  console.warn("[diff] Need two snapshots (or one plus public/items.json). Run npm run scrape first.");
+  process.exit(0);
+}
+
+const [beforePath, afterPath] = inputs;
+const diff = diffSnapshots(loadRecipes(beforePath), loadRecipes(afterPath));
+console.log(
+  `[diff] ${path.basename(beforePath)} → ${path.basename(afterPath)}: ` +
+    `${diff.added.length} added, ${diff.removed.length} removed, ${diff.changed.length} changed`
+);
+diff.changed.slice(0, 20).forEach((c) => {
+  const summary = c.changes
+    .map((ch) => (ch.field === "ingredient" ? `${ch.name} ${ch.before ?? "–"}→${ch.after ?? "–"}` : `${ch.field} ${ch.before ?? "–"}→${ch.after ?? "–"}`))
+    .join(", ");
+  console.log(`[diff]   ~ ${c.item}: ${summary}`);
+});
+
+if (!write || isEmptyDiff(diff)) process.exit(0);
+
+const entry: ChangeLogEntry = {
+  from: path.basename(beforePath) === "items.json" ? "items.json" : snapshotTime(beforePath),
+  to: snapshotTime(afterPath),
+  ...diff,
+};
+const log: ChangeLog = fs.existsSync(outFile) ? JSON.parse(fs.readFileSync(outFile, "utf8")) : { entries: [] };
+// Re-running for the same snapshot replaces its entry instead of duplicating it.
+log.entries = [entry, ...log.entries.filter((e) => e.to !== entry.to)]
+  .sort((a, b) => b.to.localeCompare(a.to))
+  .slice(0, MAX_ENTRIES);
+fs.writeFileSync(outFile, JSON.stringify(log), "utf8");
+console.log("[diff] wrote", outFile);
@@ -0,0 +1,113 @@
+/**
+ * app/lib/bom.ts: plan totals round each intermediate once, however many branches need it, and
+ * cheapest variants don't depend on the order items are costed in, even through large loops.
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { bomTotals, cheapestRecipes, expandBom } from "../app/lib/bom";
+import type { CraftingRecipe } from "../app/types/items";
+
+const recipe = (CraftedItem: string, CraftedQuantity: string, ingredients: [string, number][]): CraftingRecipe => ({
+  CraftedItem,
+  Crafter: "Blacksmith",
+  Workshop: null,
+  Workshop2: null,
+  CraftedQuantity,
+  SourceItem: ingredients.map(([name]) => name),
+  SourceQuantity: ingredients.map(([, qty]) => qty),
+});
+
+const craftableByName = new Map(
+  [
+    recipe("Sword", "1", [["Blade", 1], ["Hilt", 1]]),
+    recipe("Blade", "1", [["Metal Bar", 1]]),
+    recipe("Hilt", "1", [["Metal Bar", 1], ["Wood", 2]]),
+    recipe("Metal Bar", "5", [["Ore", 5]]),
+    recipe("Loop A", "1", [["Loop B", 1]]),
+    recipe("Loop B", "1", [["Loop A", 1], ["Ore", 1]]),
+  ].map((r) => [r.CraftedItem, r])
+);
+
+test("an intermediate shared by two branches is crafted once for both", () => {
+  const tree = expandBom("Sword", 1, craftableByName);
+  const treeBars = tree.children.reduce((sum, child) => sum + child.children[0].crafts, 0);
+  assert.equal(treeBars, 2);
+
+  const { crafts, raw } = bomTotals([{ name: "Sword", qty: 1 }], craftableByName);
+  assert.equal(crafts.find((c) => c.name === "Metal Bar")?.crafts, 1);
+  assert.deepEqual(raw, [
+    { name: "Ore", qty: 5 },
+    { name: "Wood", qty: 2 },
+  ]);
+  assert.deepEqual(
+    crafts.map((c) => c.name),
+    ["Sword", "Hilt", "Blade", "Metal Bar"]
+  );
+});
+
+test("demand is summed across targets before rounding", () => {
+  const { crafts, raw } = bomTotals(
+    [
+      { name: "Blade", qty: 2 },
+      { name: "Metal Bar", qty: 3 },
+      { name: "Unknown", qty: 4 },
+    ],
+    craftableByName
+  );
+  assert.deepEqual(
+    crafts.find((c) => c.name === "Metal Bar"),
+    { name: "Metal Bar", recipe: craftableByName.get("Metal Bar"), needed: 5, crafts: 1, produced: 5 }
+  );
+  assert.deepEqual(raw, [{ name: "Ore", qty: 5 }]);
+});
+
+test("a recipe override replaces the target's variant", () => {
+  const override = recipe("Blade", "2", [["Ore", 3]]);
+  const { raw } = bomTotals([{ name: "Blade", qty: 3, recipe: override }], craftableByName);
+  assert.deepEqual(raw, [{ name: "Ore", qty: 6 }]);
+});
+
+test("an ingredient that loops back counts as raw", () => {
+  const { crafts, raw } = bomTotals([{ name: "Loop A", qty: 1 }], craftableByName);
+  assert.deepEqual(
+    crafts.map((c) => [c.name, c.crafts]),
+    [
+      ["Loop A", 1],
+      ["Loop B", 1],
+    ]
+  );
+  assert.deepEqual(raw, [
+    { name: "Loop A", qty: 1 },
+    { name: "Ore", qty: 1 },
+  ]);
+});
+
+test("cheapest variants are the same whichever item of a loop is costed first", () => {
+  // Y is cheapest made from X (10), but while X is being costed that variant loops back and looks infinite.
+  const x = [recipe("X", "1", [["Y", 1]]), recipe("X", "1", [["Ore", 10]])];
+  const y = [recipe("Y", "1", [["X", 1]]), recipe("Y", "1", [["Ore", 20]])];
+  const xFirst = cheapestRecipes(new Map([["X", x], ["Y", y]]));
+  const yFirst = cheapestRecipes(new Map([["Y", y], ["X", x]]));
+  assert.equal(xFirst.get("X"), x[1]);
+  assert.equal(xFirst.get("Y"), y[0]);
+  assert.deepEqual(xFirst, yFirst);
+});
+
+test("cheapest variants of a 12-item loop are found without trying every path", () => {
+  // Every item can be made from all the others, so costing by path alone would try every ordering.
+  const names = Array.from({ length: 12 }, (_, i) => `Item ${i}`);
+  const recipesByName = new Map(
+    names.map((name, i) => [
+      name,
+      [
+        recipe(name, "1", names.filter((other) => other !== name).map((other) => [other, 1] as [string, number])),
+        recipe(name, "1", [["Ore", i + 1]]),
+      ],
+    ])
+  );
+  const started = performance.now();
+  const chosen = cheapestRecipes(recipesByName);
+  assert.ok(performance.now() - started < 1000, "costing a 12-item loop took over a second");
+  names.forEach((name) => assert.equal(chosen.get(name), recipesByName.get(name)![1]));
+  assert.deepEqual(chosen, cheapestRecipes(new Map([...recipesByName].reverse())));
+});
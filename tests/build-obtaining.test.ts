@@ -0,0 +1,161 @@
+/**
+ * scripts/build-obtaining.ts end to end against a local mock of the MediaWiki parse API: sections,
+ * redirects, missing pages, 429 with Retry-After, and a page that keeps failing.
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import http from "http";
+import os from "os";
+import path from "path";
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { fileURLToPath } from "url";
+import type { AddressInfo } from "net";
+import type { ObtainingCache } from "../app/lib/obtaining";
+
+const run = promisify(execFile);
+const script = path.join(path.dirname(fileURLToPath(import.meta.url)), "..", "scripts", "build-obtaining.ts");
+
+const OBTAINING_HTML =
+  '<div class="mw-parser-output"><h2><span class="mw-headline">Obtaining</span></h2>' +
+  '<p>Mined from <a href="/wiki/Iron_Deposit">Iron Deposits</a> in the <a href="/wiki/Revelwood" class="new">Revelwood</a>.</p>' +
+  "<table><tbody><tr><th>Source</th><th>Amount</th></tr><tr><td>Deposit</td><td>3–5</td></tr></tbody></table></div>";
+
+const recipes = [
+  {
+    CraftedItem: "Iron Sword",
+    Crafter: "Blacksmith",
+    Workshop: "Forge",
+    CraftedQuantity: "1",
+    SourceItem: ["Iron Bar", "Wood Log", "Broken Item"],
+    SourceQuantity: [6, 2, 1],
+  },
+  {
+    CraftedItem: "Iron Bar",
+    Crafter: "Blacksmith",
+    Workshop: "Smelter",
+    CraftedQuantity: "5",
+    SourceItem: ["Iron Ore", "Charcoal"],
+    SourceQuantity: [5, 1],
+  },
+];
+
+/** Requests seen per page, for the redirect and retry assertions. */
+const requests: { page: string; prop: string }[] = [];
+let charcoalRateLimited = false;
+
+function respond(res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+}
+
+const server = http.createServer((req, res) => {
+  const params = new URL(req.url ?? "/", "http://localhost").searchParams;
+  const page = params.get("page") ?? "";
+  const prop = params.get("prop") ?? "";
+  requests.push({ page, prop });
+  assert.equal(params.get("action"), "parse");
+  assert.equal(params.get("redirects"), "1");
+
+  if (prop === "sections") {
+    switch (page) {
+      case "Iron Ore":
+        return respond(res, 200, { parse: { title: "Iron Ore", sections: [{ line: "Obtaining", index: "1" }] } });
+      case "Iron Bar":
+        // redirects=1 resolves the title; the section text must then be asked for under it.
+        return respond(res, 200, { parse: { title: "Iron Ingot", sections: [{ line: "<b>Obtaining</b>", index: "2" }] } });
+      case "Charcoal":
+        if (!charcoalRateLimited) {
+          charcoalRateLimited = true;
+          return respond(res, 429, { error: "slow down" }, { "Retry-After": "1" });
+        }
+        return respond(res, 200, { parse: { title: "Charcoal", sections: [{ line: "Crafting", index: "1" }] } });
+      case "Iron Sword":
+        return respond(res, 200, { parse: { title: "Iron Sword", sections: [] } });
+      case "Broken Item":
+        return respond(res, 404, {});
+      default:
+        return respond(res, 200, { error: { code: "missingtitle", info: "The page you specified doesn't exist." } });
+    }
+  }
+  if (prop === "text" && ((page === "Iron Ore" && params.get("section") === "1") || (page === "Iron Ingot" && params.get("section") === "2"))) {
+    return respond(res, 200, { parse: { title: page, text: { "*": OBTAINING_HTML } } });
+  }
+  respond(res, 400, { error: { code: "badrequest", info: `Unexpected ${page} ${prop}` } });
+});
+
+test("build-obtaining writes sanitized sections and leaves failed items for live fetch", async (t) => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "obtaining-"));
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  t.after(() => server.close());
+
+  const itemsFile = path.join(dir, "items.json");
+  const outFile = path.join(dir, "obtaining.json");
+  fs.writeFileSync(itemsFile, JSON.stringify(recipes));
+  // A plain-text entry from an older build is refetched; entries for items no longer in the data are dropped.
+  const previous: ObtainingCache = { generatedAt: "2025-01-01T00:00:00.000Z", items: { "Iron Ore": "old text", Gone: null } };
+  fs.writeFileSync(outFile, JSON.stringify(previous));
+
+  const { port } = server.address() as AddressInfo;
+  const { stdout } = await run(process.execPath, ["--import", "tsx", script], {
+    env: {
+      ...process.env,
+      WIKI_API_URL: `http://127.0.0.1:${port}/api.php`,
+      ITEMS_FILE: itemsFile,
+      OBTAINING_FILE: outFile,
+      CONCURRENCY: "2",
+    },
+    timeout: 60_000,
+  });
+  assert.match(stdout, /1 failed/);
+
+  const cache: ObtainingCache = JSON.parse(fs.readFileSync(outFile, "utf8"));
+  assert.deepEqual(Object.keys(cache.items), ["Charcoal", "Iron Bar", "Iron Ore", "Iron Sword", "Wood Log"]);
+  assert.notEqual(cache.generatedAt, previous.generatedAt);
+
+  // No Obtaining section, a missing page, and a section found after a 429 all cache as null.
+  assert.equal(cache.items["Iron Sword"], null);
+  assert.equal(cache.items["Wood Log"], null);
+  assert.equal(cache.items["Charcoal"], null);
+  assert.equal(requests.filter((r) => r.page === "Charcoal").length, 2);
+
+  // The failing page is not cached, so SidePanel fetches it live and the next run retries it.
+  assert.ok(!("Broken Item" in cache.items));
+
+  // Redirected pages fetch their text under the target title.
+  assert.ok(requests.some((r) => r.page === "Iron Ingot" && r.prop === "text"));
+  assert.deepEqual(cache.items["Iron Bar"], cache.items["Iron Ore"]);
+  assert.deepEqual(cache.items["Iron Ore"], [
+    {
+      tag: "p",
+      children: [
+        "Mined from ",
+        { tag: "a", page: "Iron Deposit", children: ["Iron Deposits"] },
+        " in the ",
+        "Revelwood",
+        ".",
+      ],
+    },
+    {
+      tag: "table",
+      children: [
+        {
+          tag: "tr",
+          children: [
+            { tag: "th", children: ["Source"] },
+            { tag: "th", children: ["Amount"] },
+          ],
+        },
+        {
+          tag: "tr",
+          children: [
+            { tag: "td", children: ["Deposit"] },
+            { tag: "td", children: ["3–5"] },
+          ],
+        },
+      ],
+    },
+  ]);
+});
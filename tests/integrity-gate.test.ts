@@ -0,0 +1,70 @@
+/**
+ * The daily data path end to end: scraper/index.ts against a local mock of the wiki Data page,
+ * then scripts/check-integrity.ts on the snapshot it wrote, with the workflow's kind of thresholds.
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import http from "http";
+import os from "os";
+import path from "path";
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { fileURLToPath } from "url";
+import type { AddressInfo } from "net";
+
+const run = promisify(execFile);
+const root = path.join(path.dirname(fileURLToPath(import.meta.url)), "..");
+
+const payload = [
+  {
+    CraftedItem: "Iron Bars",
+    Crafter: "",
+    Workshop: "Blast Furnace",
+    CraftedQuantity: "20",
+    // Two variants merged into one recipe: the schema accepts it, the integrity check doesn't.
+    SourceItem: ["Charcoal", "Iron Ore", "Coal", "Iron Ore"],
+    SourceQuantity: [25, 10, 40, 20],
+  },
+  { CraftedItem: "Iron Sword", Crafter: "Blacksmith", Workshop: "Forge", CraftedQuantity: "1", SourceItem: ["Iron Bars"], SourceQuantity: [6] },
+  // Fails the schema: dropped by the scraper and listed in the validation report.
+  { CraftedItem: "Broken", Crafter: "Blacksmith", CraftedQuantity: "0", SourceItem: ["Iron Bars"], SourceQuantity: [1] },
+];
+
+const server = http.createServer((_, res) => {
+  res.writeHead(200, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(payload));
+});
+
+const script = (name: string) => ["--import", "tsx", path.join(root, name)];
+
+test("a merged-variant recipe passes the scraper and trips the quantity gate", async (t) => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "integrity-"));
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  t.after(() => server.close());
+  const { port } = server.address() as AddressInfo;
+  const env = { ...process.env, DATA_DIR: dir, RECIPES_URL: `http://127.0.0.1:${port}/recipes.json` };
+
+  await run(process.execPath, script("scraper/index.ts"), { env: { ...env, SCRAPE_MAX_INVALID: "1" }, timeout: 60_000 });
+  const report = JSON.parse(fs.readFileSync(path.join(dir, "validation-report.json"), "utf8"));
+  assert.equal(report.invalidCount, 1);
+  const [snapshot] = fs.readdirSync(dir).filter((f) => f.startsWith("crafted-items-"));
+  assert.deepEqual(
+    JSON.parse(fs.readFileSync(path.join(dir, snapshot), "utf8")).map((r: { CraftedItem: string }) => r.CraftedItem),
+    ["Iron Bars", "Iron Sword"]
+  );
+
+  const check = (max: string) =>
+    run(process.execPath, [...script("scripts/check-integrity.ts"), "--no-write"], {
+      env: { ...env, INTEGRITY_MAX_QUANTITY_ISSUES: max },
+      timeout: 60_000,
+    });
+  const passed = await check("1");
+  assert.match(passed.stdout, /quantity: Iron Bars: Iron Ore is listed more than once/);
+  await assert.rejects(check("0"), (err: { code: number; stderr: string }) => {
+    assert.equal(err.code, 1);
+    assert.match(err.stderr, /threshold exceeded: 1 quantity issues \(max 0\)/);
+    return true;
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * app/lib/metrics.ts: chains through a loop don't depend on the order recipes are listed in, and
+ * large loops are measured quickly.
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { computeMetrics } from "../app/lib/metrics";
+import type { CraftingRecipe } from "../app/types/items";
+
+const recipe = (CraftedItem: string, Workshop: string, ingredients: [string, number][]): CraftingRecipe => ({
+  CraftedItem,
+  Crafter: "Blacksmith",
+  Workshop,
+  Workshop2: null,
+  CraftedQuantity: "1",
+  SourceItem: ingredients.map(([name]) => name),
+  SourceQuantity: ingredients.map(([, qty]) => qty),
+});
+
+const a = recipe("A", "Forge", [["B", 1]]);
+const b = recipe("B", "Smelter", [["A", 2], ["Ore", 3]]);
+const craftableByName = new Map([a, b].map((r) => [r.CraftedItem, r]));
+
+test("each recipe in a loop is measured from itself, whichever comes first", () => {
+  const [aFirst, bSecond] = computeMetrics([a, b], craftableByName);
+  const [bFirst, aSecond] = computeMetrics([b, a], craftableByName);
+  assert.deepEqual(aFirst, aSecond);
+  assert.deepEqual(bSecond, bFirst);
+  // B expands A once (which loops back to B as raw): B ← A ← B.
+  assert.deepEqual(bFirst, { cost: 2 * 1 + 3, materials: 2, depth: 2, workshops: 2 });
+  assert.deepEqual(aFirst, { cost: 2 * 1 + 3, materials: 2, depth: 2, workshops: 2 });
+});
+
+test("a 12-item loop is measured without trying every path", () => {
+  // Every item is made from all the others, so expanding by path alone would try every ordering.
+  const names = Array.from({ length: 12 }, (_, i) => `Item ${i}`);
+  const loop = names.map((name) =>
+    recipe(name, `Workshop ${name}`, [
+      ...names.filter((other) => other !== name).map((other) => [other, 1] as [string, number]),
+      ["Ore", 1],
+    ])
+  );
+  const byName = new Map(loop.map((r) => [r.CraftedItem, r]));
+  const started = performance.now();
+  const metrics = computeMetrics(loop, byName);
+  assert.ok(performance.now() - started < 1000, "measuring a 12-item loop took over a second");
+  assert.deepEqual(computeMetrics([...loop].reverse(), byName).reverse(), metrics);
+  metrics.forEach((m) => {
+    assert.equal(m.depth, 12);
+    // Ore, and every member but the last one reached, counted raw where it loops back.
+    assert.equal(m.materials, 12);
+    assert.equal(m.workshops, 12);
+  });
+});
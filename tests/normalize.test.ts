@@ -0,0 +1,64 @@
+/**
+ * scraper/normalize.ts against the three shapes Data:Crafting_Recipes.json comes in. Fixtures:
+ * flat-rows.html is data/debug-snippet.html's rows, closed off after the last complete recipe;
+ * grouped.json is the same five recipes from a scraped snapshot; flat-rows.json has variants.
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { detectFormat, normalizeRecipes, parseRecipePayload, regroupFlatRows, toRecordArray } from "../scraper/normalize";
+import { validateRecipes } from "../app/lib/schema";
+
+const fixtures = path.join(path.dirname(fileURLToPath(import.meta.url)), "fixtures");
+const read = (name: string) => fs.readFileSync(path.join(fixtures, name), "utf8");
+
+test("grouped payload is detected and passes through unchanged", () => {
+  const data = parseRecipePayload(read("grouped.json"));
+  assert.equal(detectFormat(toRecordArray(data)), "grouped");
+  const { format, records } = normalizeRecipes(data);
+  assert.equal(format, "grouped");
+  const { recipes, issues } = validateRecipes(records);
+  assert.deepEqual(issues, []);
+  assert.equal(recipes.length, 5);
+});
+
+test("HTML-wrapped flat rows regroup into the same recipes as the grouped snapshot", () => {
+  const data = parseRecipePayload(read("flat-rows.html"));
+  assert.ok(Array.isArray(data));
+  assert.equal(detectFormat(data as unknown[]), "flat");
+  const { format, records } = normalizeRecipes(data);
+  assert.equal(format, "flat");
+  const { recipes, issues } = validateRecipes(records);
+  assert.deepEqual(issues, []);
+  const expected = validateRecipes(JSON.parse(read("grouped.json"))).recipes;
+  assert.deepEqual(recipes, expected);
+});
+
+test("flat rows are keyed by item, crafter and workshops, keeping first-seen order", () => {
+  const rows = JSON.parse(read("flat-rows.json"));
+  assert.equal(detectFormat(rows), "flat");
+  const { recipes, issues } = validateRecipes(regroupFlatRows(rows));
+  assert.deepEqual(issues, []);
+  assert.deepEqual(
+    recipes.map((r) => [r.CraftedItem, r.Crafter, r.Workshop, r.Workshop2, r.SourceItem, r.SourceQuantity]),
+    [
+      ["Iron Sword", "Blacksmith", "Forge", null, ["Iron Bar", "Wood Log"], [6, 2]],
+      ["Iron Sword", "Blacksmith", "Forge", "Grinding Stone", ["Iron Bar", "Leather"], [4, 1]],
+      ["Iron Sword", "Hunter", null, null, ["Iron Bar", "Wood Log"], [8, 3]],
+      ["Iron Bar", "Blacksmith", "Smelter", null, ["Charcoal", "Iron Ore"], [1, 5]],
+    ]
+  );
+  assert.ok(recipes.every((r) => r.CraftedQuantity === (r.CraftedItem === "Iron Bar" ? "5" : "1")));
+});
+
+test("entity-encoded markup inside the wrapper is decoded", () => {
+  const html = '<div class="mw-parser-output"><p>[{&quot;CraftedItem&quot;:&quot;Salt &amp; Pepper&quot;}]</p></div>';
+  assert.deepEqual(parseRecipePayload(html), [{ CraftedItem: "Salt & Pepper" }]);
+});
+
+test("an empty payload is reported as empty", () => {
+  assert.equal(normalizeRecipes([]).format, "empty");
+  assert.equal(normalizeRecipes({}).format, "empty");
+});
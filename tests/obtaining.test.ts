@@ -0,0 +1,48 @@
+/** app/lib/obtaining.ts sanitizer on wiki markup, parsed with node-html-parser as at build time. */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parse } from "node-html-parser";
+import { sanitizeObtaining } from "../app/lib/obtaining";
+
+const sanitize = (html: string) => sanitizeObtaining(parse(`<div class="mw-parser-output">${html}</div>`));
+
+test("links keep only wiki page titles; red links and other sites become text", () => {
+  assert.deepEqual(
+    sanitize('<p><a href="/wiki/Iron_Ore#Where">ore</a>, <a href="/wiki/Nope" class="new">red</a>, <a href="https://example.com">x</a></p>'),
+    [{ tag: "p", children: [{ tag: "a", page: "Iron Ore", children: ["ore"] }, ", ", "red", ", ", "x"] }]
+  );
+});
+
+test("whitespace between table parts is dropped", () => {
+  assert.deepEqual(sanitize("<table>\n <tbody>\n  <tr>\n   <td>a</td>\n  </tr>\n </tbody>\n</table>"), [
+    { tag: "table", children: [{ tag: "tr", children: [{ tag: "td", children: ["a"] }] }] },
+  ]);
+});
+
+test("stray table content is wrapped in rows and cells", () => {
+  assert.deepEqual(
+    sanitize("<table><caption>Drops</caption><thead><th>Source</th><th>Qty</th></thead><tr>Note <b>x</b><td>1</td></tr></table>"),
+    [
+      {
+        tag: "table",
+        children: [
+          { tag: "tr", children: [{ tag: "td", children: ["Drops"] }] },
+          {
+            tag: "tr",
+            children: [
+              { tag: "th", children: ["Source"] },
+              { tag: "th", children: ["Qty"] },
+            ],
+          },
+          {
+            tag: "tr",
+            children: [
+              { tag: "td", children: ["Note ", { tag: "b", children: ["x"] }] },
+              { tag: "td", children: ["1"] },
+            ],
+          },
+        ],
+      },
+    ]
+  );
+});
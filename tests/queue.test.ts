@@ -0,0 +1,60 @@
+/**
+ * app/lib/queue.ts: an entry keeps the variant it was queued with, in the shopping list and the
+ * raw-material totals alike.
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { addToQueue, buildShoppingList } from "../app/lib/queue";
+import { buildRecipesByName, variantKey } from "../app/lib/recipes";
+import type { CraftingRecipe } from "../app/types/items";
+
+const recipe = (CraftedItem: string, Workshop: string | null, ingredients: [string, number][]): CraftingRecipe => ({
+  CraftedItem,
+  Crafter: "Smelter",
+  Workshop,
+  Workshop2: null,
+  CraftedQuantity: "1",
+  SourceItem: ingredients.map(([name]) => name),
+  SourceQuantity: ingredients.map(([, qty]) => qty),
+});
+
+const fromOre = recipe("Iron Bar", null, [["Iron Ore", 2]]);
+const fromScrap = recipe("Iron Bar", "Furnace", [["Scrap Metal", 1], ["Charcoal", 1]]);
+const recipesByName = buildRecipesByName([
+  fromOre,
+  fromScrap,
+  recipe("Charcoal", null, [["Wood", 3]]),
+]);
+const craftableByName = new Map(Array.from(recipesByName, ([name, list]) => [name, list[0]]));
+
+test("each queued variant is kept apart and shopped for with its own ingredients", () => {
+  let queue = addToQueue([], "Iron Bar", 2, variantKey(fromScrap));
+  queue = addToQueue(queue, "Iron Bar", 1, variantKey(fromOre));
+  queue = addToQueue(queue, "Iron Bar", 1, variantKey(fromScrap));
+  assert.deepEqual(
+    queue.map((e) => [e.variant, e.qty]),
+    [
+      ["Smelter/Furnace", 3],
+      ["Smelter", 1],
+    ]
+  );
+
+  assert.deepEqual(buildShoppingList(queue, recipesByName, craftableByName, false), [
+    { name: "Charcoal", qty: 3 },
+    { name: "Iron Ore", qty: 2 },
+    { name: "Scrap Metal", qty: 3 },
+  ]);
+  assert.deepEqual(buildShoppingList(queue, recipesByName, craftableByName, true), [
+    { name: "Iron Ore", qty: 2 },
+    { name: "Scrap Metal", qty: 3 },
+    { name: "Wood", qty: 9 },
+  ]);
+});
+
+test("an entry without a variant, or with one that's gone, uses the first", () => {
+  const queue = [
+    { name: "Iron Bar", qty: 1 },
+    { name: "Iron Bar", qty: 1, variant: "Smelter/Removed" },
+  ];
+  assert.deepEqual(buildShoppingList(queue, recipesByName, craftableByName, true), [{ name: "Iron Ore", qty: 4 }]);
+});